@@ -0,0 +1,540 @@
+/* ------------------------------------------------------------------ */
+/*  anthropic.ts – Anthropic Messages API front-end (/v1/messages)     */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { randomUUID } from 'crypto';
+import { sendChat, sendChatStream, countTokens, getModel, resolveModel } from './chatwrapper';
+import { mapRequest, mapResponseError, mapFinishReason } from './mapper';
+import { applyKeyPolicy } from './auth';
+import { checkRateLimit } from './ratelimit';
+import { classifyError } from './errors';
+import { readJSON, sendJSON } from './http';
+import { validateChatRequest, validateMessagesRequest, createError } from './validation';
+import type {
+  RequestContext,
+  AnthropicContentBlock,
+  AnthropicErrorResponse,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicStreamEvent,
+  AnthropicUsage,
+  GeminiFunctionCall,
+  GeminiResponse,
+  GeminiStreamChunk,
+  GeminiUsageMetadata,
+  OpenAIChatRequest,
+  OpenAIContentItem,
+  OpenAIErrorResponse,
+  OpenAIMessage,
+  OpenAIToolChoice,
+} from './types';
+
+type ToolUseBlock = Extract<AnthropicContentBlock, { type: 'tool_use' }>;
+type ToolResultBlock = Extract<AnthropicContentBlock, { type: 'tool_result' }>;
+type ImageBlock = Extract<AnthropicContentBlock, { type: 'image' }>;
+
+/* ================================================================== */
+/* Request mapper: Anthropic ➞ OpenAI                                  */
+/* ================================================================== */
+
+/**
+ * Flattens a tool_result's content to text. Errors are sent as a JSON
+ * object so the Gemini function response carries them under `error`.
+ */
+function toolResultText(block: ToolResultBlock): string {
+  const text = typeof block.content === 'string'
+    ? block.content
+    : (block.content ?? [])
+      .map((c) => (c.type === 'text' ? c.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  return block.is_error ? JSON.stringify({ error: text }) : text;
+}
+
+/**
+ * Converts an Anthropic image block into an OpenAI image_url item.
+ */
+function toImageItem(block: ImageBlock): OpenAIContentItem {
+  const url = block.source.type === 'base64'
+    ? `data:${block.source.media_type};base64,${block.source.data}`
+    : block.source.url;
+  return { type: 'image_url', image_url: { url } };
+}
+
+/**
+ * Maps Anthropic `tool_choice` to the OpenAI equivalent.
+ */
+function toToolChoice(choice: AnthropicMessagesRequest['tool_choice']): OpenAIToolChoice | undefined {
+  if (choice?.type === 'tool') {
+    return { type: 'function', function: { name: choice.name ?? '' } };
+  }
+  if (choice?.type === 'any') return 'required';
+  return choice?.type;
+}
+
+/**
+ * Converts an Anthropic Messages request into an OpenAI chat request,
+ * so it can go through the same validation and Gemini mapping.
+ * Thinking blocks from earlier turns are dropped; Gemini can't take
+ * thoughts back as input.
+ */
+function toOpenAIRequest(body: AnthropicMessagesRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+
+  const system = typeof body.system === 'string'
+    ? body.system
+    : body.system?.map((b) => b.text).join('\n\n');
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+
+  for (const m of body.messages) {
+    if (typeof m.content === 'string') {
+      messages.push({ role: m.role, content: m.content });
+      continue;
+    }
+
+    if (m.role === 'assistant') {
+      const text = m.content
+        .map((b) => (b.type === 'text' ? b.text : ''))
+        .join('');
+      const toolCalls = m.content
+        .filter((b): b is ToolUseBlock => b.type === 'tool_use')
+        .map((b) => ({
+          id: b.id,
+          type: 'function' as const,
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+
+      messages.push(toolCalls.length > 0
+        ? { role: 'assistant', content: text || null, tool_calls: toolCalls }
+        : { role: 'assistant', content: text });
+      continue;
+    }
+
+    // Tool results come first in a user turn; they become tool messages,
+    // and any remaining text or images follow as a user message
+    const items: OpenAIContentItem[] = [];
+    for (const block of m.content) {
+      if (block.type === 'tool_result') {
+        messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: toolResultText(block) });
+        if (Array.isArray(block.content)) {
+          for (const c of block.content) {
+            if (c.type === 'image') items.push(toImageItem(c));
+          }
+        }
+      } else if (block.type === 'text') {
+        items.push({ type: 'text', text: block.text });
+      } else if (block.type === 'image') {
+        items.push(toImageItem(block));
+      }
+    }
+    if (items.length > 0) {
+      messages.push({ role: 'user', content: items });
+    }
+  }
+
+  // Thinking budget goes straight into Gemini's thinking config
+  const thinking = body.thinking?.type === 'enabled'
+    ? { thinkingConfig: { thinkingBudget: body.thinking.budget_tokens, includeThoughts: true } }
+    : undefined;
+
+  return {
+    // Claude model names mean "whatever Gemini model is configured"
+    model: resolveModel(body.model),
+    messages,
+    max_tokens: body.max_tokens,
+    stop: body.stop_sequences,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    top_k: body.top_k,
+    stream: body.stream,
+    tools: body.tools?.map((t) => ({
+      type: 'function',
+      function: { name: t.name, description: t.description, parameters: t.input_schema },
+    })),
+    tool_choice: body.tools?.length ? toToolChoice(body.tool_choice) : undefined,
+    parallel_tool_calls: body.tool_choice?.disable_parallel_tool_use ? false : undefined,
+    generationConfig: thinking,
+  };
+}
+
+/* ================================================================== */
+/* Response mapper: Gemini ➞ Anthropic                                 */
+/* ================================================================== */
+
+// OpenAI finish reasons ➞ Anthropic stop reasons
+const STOP_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  content_filter: 'refusal',
+  tool_calls: 'tool_use',
+};
+
+function mapStopReason(finishReason: string | undefined, hasToolUse: boolean): string {
+  return STOP_REASONS[mapFinishReason(finishReason, hasToolUse)] ?? 'end_turn';
+}
+
+function mapUsage(usage: GeminiUsageMetadata | undefined): AnthropicUsage {
+  return {
+    input_tokens: usage?.promptTokenCount ?? 0,
+    output_tokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+  };
+}
+
+/**
+ * Converts a Gemini function call into an Anthropic tool_use block.
+ */
+function toToolUse(call: GeminiFunctionCall): ToolUseBlock {
+  return {
+    type: 'tool_use',
+    id: call.id ?? `toolu_${randomUUID().replace(/-/g, '').slice(0, 24)}`,
+    name: call.name,
+    input: call.args ?? {},
+  };
+}
+
+function newMessageId(): string {
+  return `msg_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+function mapAnthropicResponse(gResp: GeminiResponse): AnthropicMessagesResponse {
+  const candidate = gResp.candidates?.[0];
+  const content: AnthropicContentBlock[] = [];
+
+  for (const part of candidate?.content?.parts ?? []) {
+    const last = content[content.length - 1];
+    if (part.functionCall) {
+      content.push(toToolUse(part.functionCall));
+    } else if (part.thought === true) {
+      // Consecutive parts of the same kind merge into one block
+      if (last?.type === 'thinking') last.thinking += part.text ?? '';
+      else content.push({ type: 'thinking', thinking: part.text ?? '', signature: '' });
+    } else if (typeof part.text === 'string') {
+      if (last?.type === 'text') last.text += part.text;
+      else content.push({ type: 'text', text: part.text });
+    }
+  }
+
+  const hasToolUse = content.some((b) => b.type === 'tool_use');
+
+  return {
+    id: newMessageId(),
+    type: 'message',
+    role: 'assistant',
+    model: gResp.modelVersion ?? getModel(),
+    content,
+    stop_reason: mapStopReason(candidate?.finishReason, hasToolUse),
+    stop_sequence: null,
+    usage: mapUsage(gResp.usageMetadata),
+  };
+}
+
+/* ================================================================== */
+/* Stream mapper: Gemini ➞ Anthropic SSE events                        */
+/* ================================================================== */
+
+/**
+ * Stateful mapper producing Anthropic's event sequence: message_start,
+ * then content_block_start/delta/stop per block, then message_delta
+ * and message_stop.
+ */
+interface AnthropicStreamMapper {
+  /** Returns the opening message_start event. */
+  start: () => AnthropicStreamEvent[];
+  /** Maps a Gemini chunk to content block events. */
+  mapChunk: (chunk: GeminiStreamChunk) => AnthropicStreamEvent[];
+  /** Closes the open block and returns the closing events. */
+  finish: () => AnthropicStreamEvent[];
+}
+
+function createAnthropicStreamMapper(model: string): AnthropicStreamMapper {
+  let index = -1;
+  let openBlock: 'text' | 'thinking' | null = null;
+  let hasToolUse = false;
+  let finishReason: string | undefined;
+  let usage: GeminiUsageMetadata | undefined;
+
+  function closeBlock(events: AnthropicStreamEvent[]) {
+    if (openBlock === null) return;
+    events.push({ type: 'content_block_stop', index });
+    openBlock = null;
+  }
+
+  function openBlockOf(kind: 'text' | 'thinking', events: AnthropicStreamEvent[]) {
+    if (openBlock === kind) return;
+    closeBlock(events);
+    index++;
+    openBlock = kind;
+    events.push({
+      type: 'content_block_start',
+      index,
+      content_block: kind === 'text' ? { type: 'text', text: '' } : { type: 'thinking', thinking: '' },
+    });
+  }
+
+  function start(): AnthropicStreamEvent[] {
+    return [{
+      type: 'message_start',
+      message: {
+        id: newMessageId(),
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    }];
+  }
+
+  function mapChunk(chunk: GeminiStreamChunk): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+    const candidate = chunk?.candidates?.[0];
+    finishReason = candidate?.finishReason ?? finishReason;
+    usage = chunk?.usageMetadata ?? usage;
+    if (chunk?.promptFeedback?.blockReason) finishReason = 'BLOCKLIST';
+
+    for (const part of candidate?.content?.parts ?? []) {
+      if (part.functionCall) {
+        // Tool calls arrive whole; send them as one block with the full JSON
+        closeBlock(events);
+        hasToolUse = true;
+        index++;
+        const { input, ...block } = toToolUse(part.functionCall);
+        events.push(
+          { type: 'content_block_start', index, content_block: { ...block, input: {} } },
+          { type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: JSON.stringify(input) } },
+          { type: 'content_block_stop', index },
+        );
+      } else if (part.thought === true) {
+        openBlockOf('thinking', events);
+        events.push({ type: 'content_block_delta', index, delta: { type: 'thinking_delta', thinking: part.text ?? '' } });
+      } else if (typeof part.text === 'string' && part.text) {
+        openBlockOf('text', events);
+        events.push({ type: 'content_block_delta', index, delta: { type: 'text_delta', text: part.text } });
+      }
+    }
+
+    return events;
+  }
+
+  function finish(): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+    closeBlock(events);
+    events.push(
+      {
+        type: 'message_delta',
+        delta: { stop_reason: mapStopReason(finishReason, hasToolUse), stop_sequence: null },
+        usage: mapUsage(usage),
+      },
+      { type: 'message_stop' },
+    );
+    return events;
+  }
+
+  return { start, mapChunk, finish };
+}
+
+function writeEvent(res: http.ServerResponse, event: AnthropicStreamEvent) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/* ================================================================== */
+/* Errors                                                              */
+/* ================================================================== */
+
+// HTTP status ➞ Anthropic error type
+const ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  408: 'invalid_request_error',
+  413: 'request_too_large',
+  429: 'rate_limit_error',
+  503: 'overloaded_error',
+  529: 'overloaded_error',
+};
+
+/**
+ * Converts an OpenAI-style error into Anthropic's error body.
+ */
+function toAnthropicError(status: number, error: OpenAIErrorResponse): AnthropicErrorResponse {
+  return {
+    type: 'error',
+    error: {
+      type: ERROR_TYPES[status] ?? 'api_error',
+      message: error.error.message,
+    },
+  };
+}
+
+function sendAnthropicError(res: http.ServerResponse, status: number, error: OpenAIErrorResponse) {
+  sendJSON(res, status, toAnthropicError(status, error));
+}
+
+/**
+ * Reads, validates and converts a Messages request. Sends the error
+ * response itself and returns null when the request is unusable.
+ * `generating` is false for token counting, which needs no max_tokens
+ * and isn't charged against rate limits.
+ */
+async function readMessagesRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  generating: boolean,
+  context: RequestContext,
+): Promise<{ body: AnthropicMessagesRequest; chatRequest: OpenAIChatRequest } | null> {
+  let rawBody: unknown;
+  try {
+    rawBody = await readJSON(req);
+  } catch {
+    console.log('HTTP 400: malformed JSON');
+    sendAnthropicError(res, 400, createError('Invalid JSON in request body'));
+    return null;
+  }
+
+  const validation = validateMessagesRequest(rawBody, generating);
+  if (!validation.valid) {
+    console.log('HTTP 400: validation failed');
+    sendAnthropicError(res, 400, validation.error);
+    return null;
+  }
+
+  // The converted request goes through the regular chat validation too
+  const chatRequest = toOpenAIRequest(validation.value);
+  const chatValidation = validateChatRequest(chatRequest);
+  if (!chatValidation.valid) {
+    console.log('HTTP 400: validation failed');
+    sendAnthropicError(res, 400, chatValidation.error);
+    return null;
+  }
+
+  const denied = applyKeyPolicy(chatRequest, context.key)
+    ?? (generating ? checkRateLimit(res, context, chatRequest.model) : undefined);
+  if (denied) {
+    console.log(`HTTP ${denied.status}: ${denied.error.error.message}`);
+    sendAnthropicError(res, denied.status, denied.error);
+    return null;
+  }
+
+  return { body: validation.value, chatRequest };
+}
+
+/* ================================================================== */
+/* Handlers                                                            */
+/* ================================================================== */
+
+/**
+ * Handles POST /v1/messages.
+ */
+export async function handleMessages(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  const request = await readMessagesRequest(req, res, true, context);
+  if (!request) return;
+
+  try {
+    const { geminiReq } = await mapRequest(request.chatRequest, context);
+
+    if (request.body.stream) {
+      // Opened before the headers so upstream failures still get an HTTP status
+      const stream = await sendChatStream(geminiReq, context);
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+
+      console.log('➜ sending HTTP 200 streamed Anthropic response');
+
+      const mapper = createAnthropicStreamMapper(context.servedModel ?? getModel());
+      mapper.start().forEach((e) => writeEvent(res, e));
+      for await (const chunk of stream) {
+        mapper.mapChunk(chunk).forEach((e) => writeEvent(res, e));
+      }
+      mapper.finish().forEach((e) => writeEvent(res, e));
+      res.end();
+
+      console.log('➜ done sending streamed Anthropic response');
+    } else {
+      const gResp = await sendChat(geminiReq, context);
+
+      const failure = mapResponseError(gResp);
+      if (failure) {
+        console.log(`HTTP ${failure.status}: ${failure.error.error.message}`);
+        sendAnthropicError(res, failure.status, failure.error);
+        return;
+      }
+
+      const mapped = mapAnthropicResponse(gResp);
+      sendJSON(res, 200, mapped);
+
+      console.log('✅ Replied HTTP 200 Anthropic response', mapped);
+    }
+  } catch (err: unknown) {
+    if (context.signal?.aborted) return;
+
+    const failure = classifyError(err);
+    console.error(`HTTP ${failure.status} Proxy error ➜`, err);
+
+    // Once streaming has started the status is sent; report in-band
+    if (res.headersSent) {
+      writeEvent(res, { ...toAnthropicError(failure.status, failure.error) });
+      res.end();
+    } else {
+      sendAnthropicError(res, failure.status, failure.error);
+    }
+  }
+}
+
+// Gemini's token cost of an image up to 384px a side; remote images are
+// counted at this rate instead of being downloaded just to be counted
+const REMOTE_IMAGE_TOKENS = 258;
+
+/**
+ * Takes remote images out of a request for token counting. Returns the
+ * request without them and how many there were.
+ */
+function withoutRemoteImages(request: OpenAIChatRequest): { request: OpenAIChatRequest; images: number } {
+  let images = 0;
+  const messages = request.messages.flatMap((m): OpenAIMessage[] => {
+    if (!Array.isArray(m.content)) return [m];
+    const content = m.content.filter((item) => {
+      const remote = item.type === 'image_url' && !item.image_url?.url.startsWith('data:');
+      if (remote) images++;
+      return !remote;
+    });
+    // Gemini won't count a turn with no parts
+    return content.length || m.tool_calls?.length ? [{ ...m, content }] : [];
+  });
+  return { request: { ...request, messages }, images };
+}
+
+/**
+ * Handles POST /v1/messages/count_tokens. Counting isn't rate limited,
+ * and remote images are estimated rather than fetched.
+ */
+export async function handleCountTokens(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  const request = await readMessagesRequest(req, res, false, context);
+  if (!request) return;
+
+  try {
+    const { request: counted, images } = withoutRemoteImages(request.chatRequest);
+    const { geminiReq } = await mapRequest(counted, context);
+    const inputTokens = await countTokens(geminiReq, context) + images * REMOTE_IMAGE_TOKENS;
+    sendJSON(res, 200, { input_tokens: inputTokens });
+  } catch (err: unknown) {
+    const failure = classifyError(err);
+    console.error(`HTTP ${failure.status} Proxy error ➜`, err);
+    sendAnthropicError(res, failure.status, failure.error);
+  }
+}
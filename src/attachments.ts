@@ -0,0 +1,150 @@
+/* ------------------------------------------------------------------ */
+/*  attachments.ts – Audio and document content parts ➞ inline data    */
+/* ------------------------------------------------------------------ */
+import type { OpenAIContentItem } from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// Maximum decoded size of an `input_audio` part (default 20 MB,
+// Gemini's limit for a request with inline data)
+const MAX_AUDIO_SIZE_BYTES = Number(process.env.MAX_AUDIO_SIZE_BYTES ?? 20 * 1024 * 1024);
+
+// Maximum decoded size of a `file` part (default 20 MB)
+const MAX_FILE_SIZE_BYTES = Number(process.env.MAX_FILE_SIZE_BYTES ?? 20 * 1024 * 1024);
+
+// `input_audio.format` ➞ MIME type, for the formats Gemini understands
+const AUDIO_FORMATS: Record<string, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mp3',
+  aiff: 'audio/aiff',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+};
+
+// Document MIME types Gemini accepts inline, by file extension
+const FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  xml: 'text/xml',
+  json: 'application/json',
+  rtf: 'text/rtf',
+};
+
+// Image MIME types Gemini accepts inline, by file extension
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  gif: 'image/gif',
+};
+
+/* ── Helpers ───────────────────────────────────────────────────────── */
+
+/**
+ * Attachment data as Gemini takes it inline.
+ */
+export interface InlineData {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * Why an attachment can't be sent, with the OpenAI error code to use.
+ */
+export interface AttachmentProblem {
+  message: string;
+  code: 'unsupported_mime_type' | 'file_too_large' | 'invalid_value' | 'unsupported_parameter';
+}
+
+/** Size of base64 data once decoded, without decoding it. */
+function decodedSize(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+/**
+ * Reads a `file` part's data: a base64 data URL, or bare base64 whose
+ * type is taken from the filename's extension.
+ */
+function readFileData(file: NonNullable<OpenAIContentItem['file']>): InlineData | null {
+  const match = file.file_data?.match(/^data:([^;,]+);base64,(.*)$/is);
+  if (match) return { mimeType: match[1].toLowerCase(), data: match[2] };
+
+  const extension = file.filename?.split('.').pop()?.toLowerCase() ?? '';
+  if (!file.file_data || !FILE_TYPES[extension]) return null;
+  return { mimeType: FILE_TYPES[extension], data: file.file_data };
+}
+
+/* ── Exported functions ────────────────────────────────────────────── */
+
+/**
+ * Converts an `input_audio` or `file` part to inline data, or explains
+ * why it can't be sent. Returns null for other parts.
+ */
+export function toInlineData(item: OpenAIContentItem): InlineData | AttachmentProblem | null {
+  if (item.type === 'input_audio') {
+    const mimeType = AUDIO_FORMATS[item.input_audio?.format?.toLowerCase() ?? ''];
+    if (!mimeType) {
+      return {
+        message: `input_audio.format must be one of: ${Object.keys(AUDIO_FORMATS).join(', ')}`,
+        code: 'unsupported_mime_type',
+      };
+    }
+    const data = item.input_audio?.data ?? '';
+    if (decodedSize(data) > MAX_AUDIO_SIZE_BYTES) {
+      return { message: `Audio exceeds the ${MAX_AUDIO_SIZE_BYTES} byte limit`, code: 'file_too_large' };
+    }
+    return { mimeType, data };
+  }
+
+  if (item.type === 'file') {
+    // Uploaded files are looked up when the request is mapped
+    if (typeof item.file?.file_id === 'string') return null;
+
+    const inline = item.file ? readFileData(item.file) : null;
+    if (!inline) {
+      return {
+        message: 'file needs a file_id, or file_data as a base64 data URL or as base64 with a filename ending in '
+          + Object.keys(FILE_TYPES).map((e) => `.${e}`).join(', '),
+        code: 'invalid_value',
+      };
+    }
+    if (!Object.values(FILE_TYPES).includes(inline.mimeType)) {
+      return {
+        message: `Unsupported file type ${inline.mimeType}; supported: ${Object.values(FILE_TYPES).join(', ')}`,
+        code: 'unsupported_mime_type',
+      };
+    }
+    if (decodedSize(inline.data) > MAX_FILE_SIZE_BYTES) {
+      return { message: `File exceeds the ${MAX_FILE_SIZE_BYTES} byte limit`, code: 'file_too_large' };
+    }
+    return inline;
+  }
+
+  return null;
+}
+
+/**
+ * Guesses a file's MIME type from its extension, for the image, audio
+ * and document types Gemini accepts.
+ */
+export function mimeTypeForFilename(filename: string | undefined): string | undefined {
+  const extension = filename?.split('.').pop()?.toLowerCase() ?? '';
+  return IMAGE_TYPES[extension] ?? AUDIO_FORMATS[extension] ?? FILE_TYPES[extension];
+}
+
+/** True if Gemini can take data of this MIME type in a request. */
+export function isSupportedMimeType(mimeType: string): boolean {
+  return [IMAGE_TYPES, AUDIO_FORMATS, FILE_TYPES].some((types) => Object.values(types).includes(mimeType));
+}
+
+export function isAttachmentProblem(result: InlineData | AttachmentProblem): result is AttachmentProblem {
+  return 'code' in result;
+}
@@ -0,0 +1,222 @@
+/* ------------------------------------------------------------------ */
+/*  auth.ts – Inbound API-key authentication and per-key policies      */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { getModel } from './chatwrapper';
+import { builtInToolLabel, requestedBuiltInTools } from './builtintools';
+import { parseRateLimits } from './ratelimit';
+import { PRIORITIES } from './limiter';
+import { DATA_DIR } from './store';
+import { createError, type ValidationResult } from './validation';
+import type { ApiKey, BuiltInTool, MappedError, OpenAIChatRequest, RequestPriority } from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+/**
+ * Key file location. Auth is enabled when the file exists; a file named
+ * explicitly with API_KEYS_FILE must exist, so a typo can't silently
+ * leave the server open.
+ */
+const API_KEYS_FILE = process.env.API_KEYS_FILE ?? path.join(DATA_DIR, 'api-keys.json');
+
+// Whether /health answers without a key
+export const PUBLIC_HEALTH = process.env.AUTH_PUBLIC_HEALTH !== 'false';
+
+/* ── Key file ──────────────────────────────────────────────────────── */
+
+/**
+ * Key file entry. Keys are stored only as SHA-256 hex digests.
+ */
+interface KeyFileEntry {
+  name?: unknown;
+  sha256?: unknown;
+  models?: unknown;
+  google_search?: unknown;
+  code_execution?: unknown;
+  url_context?: unknown;
+  image_fetch?: unknown;
+  max_output_tokens?: unknown;
+  priority?: unknown;
+  rate_limits?: unknown;
+  model_rate_limits?: unknown;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Loads the key file into a digest ➞ key map, or null when auth is off.
+ * A malformed file stops the server rather than disabling auth.
+ */
+function loadKeys(): Map<string, ApiKey> | null {
+  if (!existsSync(API_KEYS_FILE)) {
+    if (process.env.API_KEYS_FILE) {
+      throw new Error(`API_KEYS_FILE not found: ${API_KEYS_FILE}`);
+    }
+    console.log('API key auth disabled (no key file)');
+    return null;
+  }
+
+  const file = JSON.parse(readFileSync(API_KEYS_FILE, 'utf-8')) as { keys?: KeyFileEntry[] };
+  if (!Array.isArray(file.keys)) {
+    throw new Error(`${API_KEYS_FILE}: "keys" must be an array`);
+  }
+
+  const keys = new Map<string, ApiKey>();
+  file.keys.forEach((entry, i) => {
+    const where = `${API_KEYS_FILE}: keys[${i}]`;
+    if (typeof entry.sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(entry.sha256)) {
+      throw new Error(`${where}.sha256 must be a SHA-256 hex digest`);
+    }
+    if (entry.models !== undefined
+      && !(Array.isArray(entry.models) && entry.models.every((m) => typeof m === 'string'))) {
+      throw new Error(`${where}.models must be an array of model names`);
+    }
+    if (entry.max_output_tokens !== undefined
+      && !(Number.isInteger(entry.max_output_tokens) && (entry.max_output_tokens as number) > 0)) {
+      throw new Error(`${where}.max_output_tokens must be a positive integer`);
+    }
+    if (entry.priority !== undefined && !PRIORITIES.includes(entry.priority as RequestPriority)) {
+      throw new Error(`${where}.priority must be one of ${PRIORITIES.join(', ')}`);
+    }
+
+    const modelRateLimits = entry.model_rate_limits === undefined
+      ? undefined
+      : Object.fromEntries(Object.entries(entry.model_rate_limits as Record<string, unknown>)
+        .map(([model, limits]) => [model, parseRateLimits(limits, `${where}.model_rate_limits.${model}`)]));
+
+    keys.set(entry.sha256.toLowerCase(), {
+      name: typeof entry.name === 'string' ? entry.name : `key-${i}`,
+      priority: (entry.priority as RequestPriority | undefined) ?? 'normal',
+      models: entry.models as string[] | undefined,
+      googleSearch: entry.google_search !== false,
+      codeExecution: entry.code_execution !== false,
+      urlContext: entry.url_context !== false,
+      imageFetch: entry.image_fetch !== false,
+      maxOutputTokens: entry.max_output_tokens as number | undefined,
+      rateLimits: entry.rate_limits === undefined ? undefined : parseRateLimits(entry.rate_limits, `${where}.rate_limits`),
+      modelRateLimits,
+    });
+  });
+
+  console.log(`API key auth enabled (${keys.size} keys from ${API_KEYS_FILE})`);
+  return keys;
+}
+
+const keys = loadKeys();
+
+/* ── Authentication ────────────────────────────────────────────────── */
+
+/**
+ * Reads the key from `Authorization: Bearer …`, or `x-api-key` as sent
+ * by Anthropic clients.
+ */
+function presentedKey(req: http.IncomingMessage): string | undefined {
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (match) return match[1].trim();
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' ? apiKey.trim() : undefined;
+}
+
+/**
+ * Authenticates a request. The value is the matching key, or undefined
+ * when auth is disabled.
+ */
+export function authenticate(req: http.IncomingMessage): ValidationResult<ApiKey | undefined> {
+  if (!keys) return { valid: true, value: undefined };
+
+  const presented = presentedKey(req);
+  if (!presented) {
+    return {
+      valid: false,
+      error: createError(
+        'You didn\'t provide an API key. Send it in an Authorization header (Bearer <key>).',
+        'invalid_request_error',
+        'invalid_api_key',
+      ),
+    };
+  }
+
+  const key = keys.get(hashKey(presented));
+  if (!key) {
+    return {
+      valid: false,
+      error: createError('Incorrect API key provided.', 'invalid_request_error', 'invalid_api_key'),
+    };
+  }
+
+  return { valid: true, value: key };
+}
+
+/**
+ * Looks up a key by name, for work that outlives the request that
+ * started it. Undefined when auth is disabled or the key is gone.
+ */
+export function findKeyByName(name: string): ApiKey | undefined {
+  return keys ? Array.from(keys.values()).find((key) => key.name === name) : undefined;
+}
+
+/* ── Policies ──────────────────────────────────────────────────────── */
+
+export function isModelAllowed(key: ApiKey | undefined, model: string): boolean {
+  return !key?.models || key.models.includes(model);
+}
+
+// Built-in tool ➞ whether a key may use it
+const TOOL_POLICIES: Record<BuiltInTool, (key: ApiKey) => boolean> = {
+  google_search: (key) => key.googleSearch,
+  code_execution: (key) => key.codeExecution,
+  url_context: (key) => key.urlContext,
+};
+
+function forbidden(message: string, code: string): MappedError {
+  return { status: 403, error: createError(message, 'invalid_request_error', code) };
+}
+
+/**
+ * Checks a model against the key's allowed models.
+ */
+export function checkModelPolicy(key: ApiKey | undefined, model: string): MappedError | null {
+  if (isModelAllowed(key, model)) return null;
+  return forbidden(`API key '${key?.name}' is not allowed to use model '${model}'`, 'model_not_allowed');
+}
+
+/**
+ * Applies a key's policy to a validated chat request: rejects models and
+ * features the key may not use, and caps the output tokens in place.
+ */
+export function applyKeyPolicy(body: OpenAIChatRequest, key: ApiKey | undefined): MappedError | null {
+  if (!key) return null;
+
+  const modelDenied = checkModelPolicy(key, body.model ?? getModel());
+  if (modelDenied) return modelDenied;
+
+  for (const tool of requestedBuiltInTools(body)) {
+    if (!TOOL_POLICIES[tool](key)) {
+      return forbidden(`API key '${key.name}' is not allowed to use ${builtInToolLabel(tool)}`, `${tool}_not_allowed`);
+    }
+  }
+
+  const fetchesImages = body.messages.some((m) => Array.isArray(m.content)
+    && m.content.some((c) => c.type === 'image_url' && !c.image_url?.url.startsWith('data:')));
+  if (!key.imageFetch && fetchesImages) {
+    return forbidden(
+      `API key '${key.name}' is not allowed to fetch remote images; send images as data URLs`,
+      'image_fetch_not_allowed',
+    );
+  }
+
+  if (key.maxOutputTokens) {
+    const requested = body.max_completion_tokens ?? body.max_tokens;
+    if (requested === undefined || requested > key.maxOutputTokens) {
+      body.max_completion_tokens = undefined;
+      body.max_tokens = key.maxOutputTokens;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,649 @@
+/* ------------------------------------------------------------------ */
+/*  batches.ts – OpenAI Batch API (/v1/batches) and its local worker   */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { sendChat } from './chatwrapper';
+import { mapRequest, mapResponse, mapResponseError, candidateText } from './mapper';
+import { applyKeyPolicy, findKeyByName } from './auth';
+import { waitForRateLimit } from './ratelimit';
+import { classifyError, isRetryableError } from './errors';
+import { readStoredFile, storeFile } from './files';
+import { readJSON, sendError, sendJSON } from './http';
+import { createStore, DATA_DIR } from './store';
+import {
+  createError,
+  validateBatchRequest,
+  validateChatRequest,
+  validateStructuredOutput,
+} from './validation';
+import type {
+  ApiKey,
+  OpenAIBatch,
+  OpenAIBatchError,
+  OpenAIChatRequest,
+  RequestContext,
+} from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// Requests of a batch in flight at once
+const BATCH_CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY ?? 4));
+
+// Tries per request when Gemini keeps failing transiently; each try
+// already includes the client's own UPSTREAM_MAX_RETRIES
+const BATCH_MAX_ATTEMPTS = Math.max(1, Number(process.env.BATCH_MAX_ATTEMPTS ?? 3));
+
+// Wait before trying a request again; doubles with each try
+const BATCH_RETRY_DELAY_MS = Number(process.env.BATCH_RETRY_DELAY_MS ?? 30_000);
+
+// Most requests one input file may hold, as in the OpenAI API
+const MAX_BATCH_REQUESTS = 50_000;
+
+// The only completion window OpenAI offers
+const COMPLETION_WINDOW_SECONDS = 24 * 60 * 60;
+
+/* ── Storage ───────────────────────────────────────────────────────── */
+
+/**
+ * A batch and the name of the API key that created it, when auth is
+ * enabled. Its requests run with that key's policy and rate limits.
+ */
+interface StoredBatch {
+  batch: OpenAIBatch;
+  owner?: string;
+}
+
+/**
+ * One line of the input file.
+ */
+interface BatchRequestLine {
+  custom_id: string;
+  method: string;
+  url: string;
+  body: unknown;
+}
+
+/**
+ * One line of the output or error file.
+ */
+interface BatchResultLine {
+  id: string;
+  custom_id: string;
+  response: { status_code: number; request_id: string; body: unknown } | null;
+  error: { code: string; message: string } | null;
+}
+
+/**
+ * A finished request, as appended to the batch's work log.
+ */
+interface WorkLogEntry {
+  index: number;
+  failed: boolean;
+  line: BatchResultLine;
+}
+
+const batchStore = createStore<StoredBatch>('batches');
+
+// Finished requests are logged here as they complete, so a restart
+// only runs the requests still outstanding
+const WORK_DIR = path.join(DATA_DIR, 'batch-work');
+
+const ACTIVE_STATUSES: Array<OpenAIBatch['status']> = ['validating', 'in_progress', 'finalizing', 'cancelling'];
+
+function newId(prefix: string): string {
+  return `${prefix}_${randomUUID().replace(/-/g, '')}`;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function workLogPath(id: string): string {
+  return path.join(WORK_DIR, `${id}.jsonl`);
+}
+
+/**
+ * Reads the requests a batch has finished, by index. A line cut short by
+ * a crash is ignored; its request runs again.
+ */
+async function readWorkLog(id: string): Promise<Map<number, WorkLogEntry>> {
+  let text: string;
+  try {
+    text = await fs.readFile(workLogPath(id), 'utf8');
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+    throw err;
+  }
+
+  const entries = new Map<number, WorkLogEntry>();
+  for (const line of text.split('\n')) {
+    try {
+      const entry = JSON.parse(line) as WorkLogEntry;
+      entries.set(entry.index, entry);
+    } catch {
+      // Blank or partial line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Loads a batch, treating other keys' batches as missing.
+ */
+async function loadBatch(id: string, key: ApiKey | undefined): Promise<StoredBatch | undefined> {
+  const stored = await batchStore.get(id);
+  return stored && stored.owner === key?.name ? stored : undefined;
+}
+
+/* ── Input ─────────────────────────────────────────────────────────── */
+
+/**
+ * Splits an input file into request lines, collecting a problem for
+ * each line that isn't a well-formed request to `endpoint`.
+ */
+function parseInput(text: string, endpoint: string): { requests: BatchRequestLine[]; errors: OpenAIBatchError[] } {
+  const requests: BatchRequestLine[] = [];
+  const errors: OpenAIBatchError[] = [];
+  const customIds = new Set<string>();
+  const problem = (line: number, code: string, message: string, param: string | null = null) => {
+    errors.push({ code, message, param, line });
+  };
+
+  text.split('\n').forEach((raw, i) => {
+    const line = i + 1;
+    if (!raw.trim()) return;
+
+    let parsed: Partial<BatchRequestLine>;
+    try {
+      parsed = JSON.parse(raw) as Partial<BatchRequestLine>;
+    } catch {
+      problem(line, 'invalid_json_line', 'Line is not valid JSON');
+      return;
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      problem(line, 'invalid_json_line', 'Line must be a JSON object');
+    } else if (typeof parsed.custom_id !== 'string' || !parsed.custom_id) {
+      problem(line, 'missing_required_parameter', 'custom_id is required', 'custom_id');
+    } else if (customIds.has(parsed.custom_id)) {
+      problem(line, 'duplicate_custom_id', `custom_id '${parsed.custom_id}' is used more than once`, 'custom_id');
+    } else if (parsed.method !== 'POST') {
+      problem(line, 'invalid_value', 'method must be "POST"', 'method');
+    } else if (parsed.url !== endpoint) {
+      problem(line, 'invalid_value', `url must be the batch's endpoint, ${endpoint}`, 'url');
+    } else if (typeof parsed.body !== 'object' || parsed.body === null) {
+      problem(line, 'missing_required_parameter', 'body must be a JSON object', 'body');
+    } else {
+      customIds.add(parsed.custom_id);
+      requests.push(parsed as BatchRequestLine);
+    }
+  });
+
+  if (errors.length === 0 && requests.length === 0) {
+    errors.push({ code: 'empty_file', message: 'The input file has no requests', param: null, line: null });
+  }
+  if (requests.length > MAX_BATCH_REQUESTS) {
+    errors.push({
+      code: 'too_many_requests',
+      message: `A batch may hold at most ${MAX_BATCH_REQUESTS} requests`,
+      param: null,
+      line: null,
+    });
+  }
+  return { requests, errors };
+}
+
+/* ── Requests ──────────────────────────────────────────────────────── */
+
+/**
+ * Answers one chat request the way POST /v1/chat/completions does,
+ * except that rate limits are waited out rather than refused.
+ */
+async function completeChat(rawBody: unknown, context: RequestContext): Promise<{ status: number; body: unknown }> {
+  const validation = validateChatRequest(rawBody);
+  if (!validation.valid) return { status: 400, body: validation.error };
+
+  const body = rawBody as OpenAIChatRequest;
+  if (body.stream) {
+    return {
+      status: 400,
+      body: createError('stream is not supported in batches', 'invalid_request_error', 'unsupported_parameter'),
+    };
+  }
+
+  const denied = applyKeyPolicy(body, context.key);
+  if (denied) return { status: denied.status, body: denied.error };
+  await waitForRateLimit(context, body.model, context.signal);
+
+  const { geminiReq, responseOptions } = await mapRequest(body, context);
+  const gResp = await sendChat(geminiReq, context);
+
+  const failure = mapResponseError(gResp);
+  if (failure) return { status: failure.status, body: failure.error };
+
+  for (const candidate of gResp.candidates ?? []) {
+    const text = candidateText(candidate);
+    if (text === undefined) continue;
+    const outputCheck = validateStructuredOutput(text, body.response_format);
+    if (!outputCheck.valid) return { status: 502, body: outputCheck.error };
+  }
+  return { status: 200, body: mapResponse(gResp, responseOptions) };
+}
+
+/**
+ * Runs one request of a batch, trying again after transient upstream
+ * errors. Returns undefined if the batch was cancelled or expired before
+ * the request finished.
+ */
+async function runRequest(
+  request: BatchRequestLine,
+  key: ApiKey | undefined,
+  signal: AbortSignal,
+): Promise<Omit<WorkLogEntry, 'index'> | undefined> {
+  const result = (status: number, body: unknown) => ({
+    failed: status !== 200,
+    line: {
+      id: newId('batch_req'),
+      custom_id: request.custom_id,
+      response: { status_code: status, request_id: newId('req'), body },
+      error: null,
+    },
+  });
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      // Batch work yields to interactive requests when slots are scarce
+      const { status, body } = await completeChat(request.body, { key, signal, priority: 'low' });
+      return result(status, body);
+    } catch (err: unknown) {
+      if (signal.aborted) return undefined;
+
+      if (attempt < BATCH_MAX_ATTEMPTS && isRetryableError(err)) {
+        const delay = BATCH_RETRY_DELAY_MS * 2 ** (attempt - 1);
+        console.warn(`Batch request ${request.custom_id} failed (try ${attempt}); retrying in ${delay}ms`);
+        try {
+          await sleep(delay, undefined, { signal });
+        } catch {
+          return undefined;
+        }
+        continue;
+      }
+
+      const failure = classifyError(err);
+      return result(failure.status, failure.error);
+    }
+  }
+}
+
+/* ── Worker ────────────────────────────────────────────────────────── */
+
+// Batches waiting for the worker, oldest first
+const queue: string[] = [];
+let draining = false;
+
+// The batch being run, shared with the cancel handler
+let active: { stored: StoredBatch; controller: AbortController } | undefined;
+
+// When queued batches were cancelled, applied as the worker picks them up
+const cancelRequests = new Map<string, number>();
+
+// Writes to each batch record, chained so they land in the order made
+const saving = new Map<string, Promise<void>>();
+
+function saveBatch(stored: StoredBatch): Promise<void> {
+  const id = stored.batch.id;
+  const saved = (saving.get(id) ?? Promise.resolve()).then(() => batchStore.put(id, stored));
+  const settled = saved.then(() => undefined, () => undefined);
+  saving.set(id, settled);
+  void settled.then(() => {
+    if (saving.get(id) === settled) saving.delete(id);
+  });
+  return saved;
+}
+
+/**
+ * Writes the output and error files and moves the batch to its final
+ * status. Requests that never finished are reported in the error file.
+ */
+async function finalizeBatch(
+  stored: StoredBatch,
+  requests: BatchRequestLine[],
+  results: Map<number, WorkLogEntry>,
+  key: ApiKey | undefined,
+  save: () => Promise<void>,
+) {
+  const { batch } = stored;
+  const outcome = batch.cancelling_at !== null
+    ? 'cancelled'
+    : results.size < requests.length ? 'expired' : 'completed';
+
+  batch.status = 'finalizing';
+  batch.finalizing_at ??= now();
+  await save();
+
+  const output: string[] = [];
+  const errors: string[] = [];
+  requests.forEach((request, index) => {
+    const entry = results.get(index);
+    if (entry) {
+      (entry.failed ? errors : output).push(JSON.stringify(entry.line));
+      return;
+    }
+    const line: BatchResultLine = {
+      id: newId('batch_req'),
+      custom_id: request.custom_id,
+      response: null,
+      error: outcome === 'cancelled'
+        ? { code: 'batch_cancelled', message: 'The batch was cancelled before this request ran' }
+        : { code: 'batch_expired', message: 'The batch expired before this request ran' },
+    };
+    errors.push(JSON.stringify(line));
+    batch.request_counts.failed++;
+  });
+
+  const writeResults = (lines: string[], kind: string) => storeFile(Buffer.from(`${lines.join('\n')}\n`), {
+    filename: `${batch.id}_${kind}.jsonl`,
+    purpose: 'batch_output',
+    mimeType: 'application/jsonl',
+    key,
+  });
+  if (output.length) batch.output_file_id = (await writeResults(output, 'output')).id;
+  if (errors.length) batch.error_file_id = (await writeResults(errors, 'error')).id;
+
+  batch.status = outcome;
+  const at = now();
+  if (outcome === 'cancelled') batch.cancelled_at = at;
+  else if (outcome === 'expired') batch.expired_at = at;
+  else batch.completed_at = at;
+  await save();
+  await fs.rm(workLogPath(batch.id), { force: true });
+
+  console.log(`✅ Batch ${batch.id} ${outcome}: `
+    + `${batch.request_counts.completed} completed, ${batch.request_counts.failed} failed`);
+}
+
+/**
+ * Runs a batch from wherever it stopped: validates the input file,
+ * sends the outstanding requests with bounded concurrency until they
+ * finish or the batch is cancelled or expires, then finalizes it.
+ */
+async function runBatch(stored: StoredBatch, cancelled: AbortSignal) {
+  const { batch } = stored;
+
+  const save = () => saveBatch(stored);
+
+  const fail = async (errors: OpenAIBatchError[]) => {
+    batch.status = 'failed';
+    batch.failed_at = now();
+    batch.errors = { object: 'list', data: errors };
+    await save();
+    console.log(`Batch ${batch.id} failed: ${errors[0].message}`);
+  };
+
+  const key = stored.owner !== undefined ? findKeyByName(stored.owner) : undefined;
+  if (stored.owner !== undefined && !key) {
+    await fail([{ code: 'invalid_api_key', message: `API key '${stored.owner}' no longer exists`, param: null, line: null }]);
+    return;
+  }
+
+  const input = await readStoredFile(batch.input_file_id, key);
+  if (!input) {
+    await fail([{
+      code: 'file_not_found',
+      message: `Input file ${batch.input_file_id} no longer exists`,
+      param: 'input_file_id',
+      line: null,
+    }]);
+    return;
+  }
+
+  const { requests, errors } = parseInput(input.data.toString('utf8'), batch.endpoint);
+  if (errors.length) {
+    await fail(errors);
+    return;
+  }
+
+  const results = await readWorkLog(batch.id);
+  batch.request_counts = {
+    total: requests.length,
+    completed: Array.from(results.values()).filter((r) => !r.failed).length,
+    failed: Array.from(results.values()).filter((r) => r.failed).length,
+  };
+  if (batch.status === 'validating') {
+    batch.status = 'in_progress';
+    batch.in_progress_at = now();
+  }
+  await save();
+
+  if (batch.status === 'in_progress') {
+    console.log(`➜ running batch ${batch.id} (${requests.length - results.size} of ${requests.length} requests left)`);
+    const signal = AbortSignal.any([
+      cancelled,
+      AbortSignal.timeout(Math.max(0, batch.expires_at * 1000 - Date.now())),
+    ]);
+    const pending = requests.map((_, index) => index).filter((index) => !results.has(index));
+    await fs.mkdir(WORK_DIR, { recursive: true });
+
+    let next = 0;
+    const worker = async () => {
+      while (next < pending.length && !signal.aborted) {
+        const index = pending[next++];
+        const entry = await runRequest(requests[index], key, signal);
+        if (!entry) continue;
+
+        results.set(index, { index, ...entry });
+        await fs.appendFile(workLogPath(batch.id), `${JSON.stringify({ index, ...entry })}\n`);
+        if (entry.failed) {
+          batch.request_counts.failed++;
+        } else {
+          batch.request_counts.completed++;
+        }
+        await save();
+      }
+    };
+    await Promise.all(Array.from({ length: BATCH_CONCURRENCY }, worker));
+  }
+
+  await finalizeBatch(stored, requests, results, key, save);
+}
+
+/**
+ * Runs queued batches one at a time.
+ */
+async function drainQueue() {
+  if (draining) return;
+  draining = true;
+  try {
+    for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+      const stored = await batchStore.get(id);
+      const cancelledAt = cancelRequests.get(id);
+      cancelRequests.delete(id);
+      if (!stored || !ACTIVE_STATUSES.includes(stored.batch.status)) continue;
+
+      // A cancel that raced the read above; the run below finalizes it
+      if (cancelledAt !== undefined && ['validating', 'in_progress'].includes(stored.batch.status)) {
+        stored.batch.status = 'cancelling';
+        stored.batch.cancelling_at = cancelledAt;
+      }
+      active = { stored, controller: new AbortController() };
+      try {
+        await runBatch(stored, active.controller.signal);
+      } catch (err) {
+        console.error(`Batch ${id} stopped with an error; it resumes on restart:`, err);
+      } finally {
+        active = undefined;
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+function enqueue(id: string) {
+  queue.push(id);
+  void drainQueue();
+}
+
+/**
+ * Queues the batches a previous run left unfinished, oldest first.
+ * Requests they had finished are kept; the rest run again.
+ */
+export async function resumeBatches() {
+  const unfinished = (await batchStore.list())
+    .filter((stored) => ACTIVE_STATUSES.includes(stored.batch.status))
+    .sort((a, b) => a.batch.created_at - b.batch.created_at);
+  if (unfinished.length) console.log(`Resuming ${unfinished.length} unfinished batches`);
+  for (const stored of unfinished) enqueue(stored.batch.id);
+}
+
+/* ── Handlers ──────────────────────────────────────────────────────── */
+
+function sendNotFound(res: http.ServerResponse, id: string) {
+  sendError(res, 404, createError(`No such Batch object: ${id}`, 'invalid_request_error', 'not_found'));
+}
+
+function sendStoreError(res: http.ServerResponse, err: unknown) {
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  console.error('HTTP 500 Store error ➜', err);
+  sendError(res, 500, createError(message, 'api_error'));
+}
+
+/**
+ * Handles POST /v1/batches. The batch is queued and runs in the
+ * background; clients poll GET /v1/batches/{id} for its status.
+ */
+export async function handleCreateBatch(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  let rawBody: unknown;
+  try {
+    rawBody = await readJSON(req);
+  } catch {
+    console.log('HTTP 400: malformed JSON');
+    sendError(res, 400, createError('Invalid JSON in request body', 'invalid_request_error', 'invalid_json'));
+    return;
+  }
+
+  const validation = validateBatchRequest(rawBody);
+  if (!validation.valid) {
+    console.log('HTTP 400: validation failed');
+    sendError(res, 400, validation.error);
+    return;
+  }
+  const body = validation.value;
+
+  try {
+    const input = await readStoredFile(body.input_file_id, context.key);
+    if (!input) {
+      sendError(res, 404, createError(
+        `No such File object: ${body.input_file_id}`,
+        'invalid_request_error',
+        'not_found',
+      ));
+      return;
+    }
+    if (input.file.purpose !== 'batch') {
+      sendError(res, 400, createError(
+        `File ${body.input_file_id} must be uploaded with purpose "batch"`,
+        'invalid_request_error',
+        'invalid_value',
+      ));
+      return;
+    }
+
+    const createdAt = now();
+    const batch: OpenAIBatch = {
+      id: newId('batch'),
+      object: 'batch',
+      endpoint: body.endpoint,
+      errors: null,
+      input_file_id: body.input_file_id,
+      completion_window: body.completion_window,
+      status: 'validating',
+      output_file_id: null,
+      error_file_id: null,
+      created_at: createdAt,
+      in_progress_at: null,
+      expires_at: createdAt + COMPLETION_WINDOW_SECONDS,
+      finalizing_at: null,
+      completed_at: null,
+      failed_at: null,
+      expired_at: null,
+      cancelling_at: null,
+      cancelled_at: null,
+      request_counts: { total: 0, completed: 0, failed: 0 },
+      metadata: body.metadata ?? null,
+    };
+    await batchStore.put(batch.id, { batch, owner: context.key?.name });
+    enqueue(batch.id);
+
+    sendJSON(res, 200, batch);
+    console.log(`✅ Queued batch ${batch.id}`);
+  } catch (err: unknown) {
+    sendStoreError(res, err);
+  }
+}
+
+/**
+ * Handles GET /v1/batches/{id}.
+ */
+export async function handleGetBatch(res: http.ServerResponse, id: string, key: ApiKey | undefined) {
+  try {
+    const running = active?.stored.batch.id === id ? active.stored : undefined;
+    const stored = running && running.owner === key?.name ? running : await loadBatch(id, key);
+    if (!stored) {
+      sendNotFound(res, id);
+      return;
+    }
+    sendJSON(res, 200, stored.batch);
+  } catch (err: unknown) {
+    sendStoreError(res, err);
+  }
+}
+
+/**
+ * Handles POST /v1/batches/{id}/cancel. Requests in flight are
+ * abandoned; the batch becomes `cancelled` once its files are written.
+ */
+export async function handleCancelBatch(res: http.ServerResponse, id: string, key: ApiKey | undefined) {
+  try {
+    const stored = await loadBatch(id, key);
+    if (!stored) {
+      sendNotFound(res, id);
+      return;
+    }
+
+    // The worker may be running the batch; if so, change its copy
+    const running = active?.stored.batch.id === id ? active : undefined;
+    const { batch } = running?.stored ?? stored;
+    if (batch.status !== 'validating' && batch.status !== 'in_progress') {
+      sendError(res, 409, createError(
+        `Cannot cancel a batch with status ${batch.status}`,
+        'invalid_request_error',
+        'invalid_state',
+      ));
+      return;
+    }
+
+    batch.status = 'cancelling';
+    batch.cancelling_at = now();
+    if (running) {
+      running.controller.abort();
+    } else {
+      // Queued or waiting to resume; the worker finalizes it when it gets
+      // there, and applies the cancel itself if it has already read the record
+      cancelRequests.set(id, batch.cancelling_at);
+      await saveBatch(stored);
+    }
+    sendJSON(res, 200, batch);
+    console.log(`➜ cancelling batch ${id}`);
+  } catch (err: unknown) {
+    sendStoreError(res, err);
+  }
+}
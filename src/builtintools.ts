@@ -0,0 +1,99 @@
+/* ------------------------------------------------------------------ */
+/*  builtintools.ts – Gemini built-in tools and their alias names      */
+/* ------------------------------------------------------------------ */
+import type { BuiltInTool, GeminiTool, OpenAIChatRequest, OpenAIFunction } from './types';
+
+/* ── Registry ──────────────────────────────────────────────────────── */
+
+/**
+ * Gemini's built-in tools. A requested function whose name is one of a
+ * tool's aliases turns the tool on instead of being declared as a
+ * callable function.
+ */
+const REGISTRY: Record<BuiltInTool, { label: string; tool: GeminiTool; aliases: string[] }> = {
+  google_search: {
+    label: 'Google Search grounding',
+    tool: { googleSearch: {} },
+    aliases: ['web_search', 'google_search', 'google_web_search', 'search', 'internet_search'],
+  },
+  code_execution: {
+    label: 'code execution',
+    tool: { codeExecution: {} },
+    aliases: ['code_interpreter', 'code_execution', 'python', 'run_python', 'execute_code'],
+  },
+  url_context: {
+    label: 'URL context',
+    tool: { urlContext: {} },
+    aliases: ['url_context', 'fetch_url', 'browse_url', 'open_url', 'read_url'],
+  },
+};
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+/**
+ * Built-ins the bridge may turn on, e.g. "google_search,url_context";
+ * all by default. Aliases of a disabled tool are passed to Gemini as
+ * ordinary functions, so clients that define e.g. `python` themselves
+ * can keep it.
+ */
+const ENABLED = new Set((process.env.BUILT_IN_TOOLS ?? Object.keys(REGISTRY).join(','))
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean)
+  .map((name) => {
+    if (!(name in REGISTRY)) {
+      throw new Error(`BUILT_IN_TOOLS: unknown tool "${name}" (expected ${Object.keys(REGISTRY).join(', ')})`);
+    }
+    return name as BuiltInTool;
+  }));
+
+/* ── Lookups ───────────────────────────────────────────────────────── */
+
+export function isBuiltInToolEnabled(tool: BuiltInTool): boolean {
+  return ENABLED.has(tool);
+}
+
+/** Human-readable name of a built-in, for logs and errors. */
+export function builtInToolLabel(tool: BuiltInTool): string {
+  return REGISTRY[tool].label;
+}
+
+/** The Gemini tool entry that turns a built-in on. */
+export function toGeminiTool(tool: BuiltInTool): GeminiTool {
+  return REGISTRY[tool].tool;
+}
+
+/**
+ * Collects every requested function definition, from both the current
+ * `tools` array and the legacy `functions` array.
+ */
+export function collectFunctions(body: OpenAIChatRequest): OpenAIFunction[] {
+  const fromTools = (body.tools ?? [])
+    .filter((t) => t.type === 'function' && t.function)
+    .map((t) => t.function);
+  return [...fromTools, ...(body.functions ?? [])];
+}
+
+/**
+ * Maps the names of requested functions that are aliases of an enabled
+ * built-in to that built-in.
+ */
+export function findBuiltInTools(functions: OpenAIFunction[]): Map<string, BuiltInTool> {
+  const found = new Map<string, BuiltInTool>();
+  for (const fn of functions) {
+    const name = fn.name.toLowerCase();
+    const tool = Array.from(ENABLED).find((t) => REGISTRY[t].aliases.includes(name));
+    if (tool) found.set(fn.name, tool);
+  }
+  return found;
+}
+
+/**
+ * Returns the built-ins a request turns on: through aliased functions,
+ * or `web_search_options` for Google Search.
+ */
+export function requestedBuiltInTools(body: OpenAIChatRequest): Set<BuiltInTool> {
+  const tools = new Set(findBuiltInTools(collectFunctions(body)).values());
+  if (body.web_search_options !== undefined) tools.add('google_search');
+  return tools;
+}
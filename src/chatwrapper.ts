@@ -8,7 +8,27 @@ import { VALID_GEMINI_MODELS } from '@google/gemini-cli-core/dist/src/config/mod
 import { readFileSync, existsSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
-import type { GeminiContent, GeminiResponse, GeminiStreamChunk } from './types';
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  getErrorStatus,
+  getRetryAfterMs,
+  isFallbackError,
+  isRetryableError,
+  RequestTimeoutError,
+} from './errors';
+import { isModelAllowed } from './auth';
+import { acquireSlot } from './limiter';
+import { cacheResponse, getCachedResponse, responseCacheKey, type CachedResponse } from './responsecache';
+import type {
+  GeminiContent,
+  GeminiEmbedResponse,
+  GeminiResponse,
+  GeminiStreamChunk,
+  GeminiTool,
+  GeminiToolConfig,
+  GeminiUsageMetadata,
+  RequestContext,
+} from './types';
 
 // Read auth type from gemini CLI settings if not explicitly set via env var.
 // Settings file structure: { security: { auth: { selectedType: "oauth-personal" } } }
@@ -43,6 +63,9 @@ if (model) {
   console.log(`Model override: ${model}`);
 }
 
+// Embedding model used when a request names none (or an OpenAI model)
+const embeddingModel = process.env.EMBEDDING_MODEL ?? 'gemini-embedding-001';
+
 /* ------------------------------------------------------------------ */
 /* 1.  Build the ContentGenerator exactly like the CLI does           */
 /* ------------------------------------------------------------------ */
@@ -64,6 +87,15 @@ interface ContentGenerator {
     config: Record<string, unknown>;
     systemInstruction?: string;
   }): AsyncIterable<GeminiStreamChunk>;
+  countTokens(params: {
+    model: string;
+    contents: GeminiContent[];
+  }): Promise<{ totalTokens?: number }>;
+  embedContent(params: {
+    model: string;
+    contents: string[];
+    config?: Record<string, unknown>;
+  }): Promise<GeminiEmbedResponse>;
 }
 
 let modelName: string;
@@ -105,46 +137,347 @@ interface ChatRequest {
   contents: GeminiContent[];
   generationConfig?: Record<string, unknown>;
   systemInstruction?: string;
-  tools?: unknown[];
+  tools?: GeminiTool[];
+  toolConfig?: GeminiToolConfig;
 }
 
-export async function sendChat(request: ChatRequest): Promise<GeminiResponse> {
-  const { model, contents, generationConfig = {}, systemInstruction, tools } = request;
-  const generator = await generatorPromise;
+/**
+ * Builds the generator config, merging tools (function declarations and
+ * Google Search grounding) and the tool config in when provided.
+ */
+function buildConfig(request: ChatRequest): Record<string, unknown> {
+  const { generationConfig = {}, tools, toolConfig } = request;
+  return {
+    ...generationConfig,
+    ...(tools?.length ? { tools } : {}),
+    ...(toolConfig ? { toolConfig } : {}),
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* Retries and model fallback                                          */
+/* ------------------------------------------------------------------ */
+
+// Retries per model for transient upstream errors (429, 5xx, network)
+const MAX_RETRIES = Number(process.env.UPSTREAM_MAX_RETRIES ?? 2);
+
+// Exponential backoff: base delay, doubled per attempt, capped
+const RETRY_BASE_MS = Number(process.env.UPSTREAM_RETRY_BASE_MS ?? 1_000);
+const RETRY_MAX_MS = Number(process.env.UPSTREAM_RETRY_MAX_MS ?? 30_000);
+
+// Ordered fallback chain, e.g. "gemini-2.5-pro,gemini-2.5-flash,gemini-2.5-flash-lite".
+// A request for a model in the chain may be served by any model after it.
+const MODEL_FALLBACKS = (process.env.MODEL_FALLBACKS ?? '')
+  .split(',')
+  .map((m) => m.trim())
+  .filter(Boolean);
+
+// Overall time limit for a non-streaming request, including retries; 0 for none
+const REQUEST_TIMEOUT_MS = Number(process.env.REQUEST_TIMEOUT_MS ?? 600_000);
+
+/**
+ * Returns the delay before the next attempt, or null to give up.
+ * Uses "equal jitter" backoff, but never less than upstream's retry-after;
+ * a retry-after beyond RETRY_MAX_MS is left to the fallback chain.
+ */
+function retryDelay(err: unknown, attempt: number): number | null {
+  if (attempt >= MAX_RETRIES || !isRetryableError(err)) return null;
+
+  const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  const retryAfter = getRetryAfterMs(err);
+  if (retryAfter === undefined) return jittered;
+  return retryAfter > RETRY_MAX_MS ? null : Math.max(retryAfter, jittered);
+}
+
+/**
+ * A concurrency slot that is given back while a call backs off, so
+ * queued calls can use it in the meantime, and traded for a slot on the
+ * fallback model when the chain moves on. Releasing is idempotent.
+ */
+interface Slot {
+  release: () => void;
+  reacquire: () => Promise<void>;
+  moveTo: (model: string) => Promise<void>;
+}
+
+async function takeSlot(model: string, context: RequestContext | undefined): Promise<Slot> {
+  let current = model;
+  let release: (() => void) | undefined = await acquireSlot(model, context);
+  const slot: Slot = {
+    release: () => {
+      release?.();
+      release = undefined;
+    },
+    reacquire: async () => {
+      release ??= await acquireSlot(current, context);
+    },
+    moveTo: async (next) => {
+      slot.release();
+      current = next;
+      await slot.reacquire();
+    },
+  };
+  return slot;
+}
 
+async function withRetries<T>(model: string, slot: Slot, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      const delay = signal?.aborted ? null : retryDelay(err, attempt);
+      if (delay === null) throw err;
+      console.warn(`Gemini ${model} failed (HTTP ${getErrorStatus(err) ?? '?'}), retrying in ${Math.round(delay)}ms`);
+      slot.release();
+      await sleep(delay, undefined, { signal });
+      await slot.reacquire();
+    }
+  }
+}
+
+/**
+ * Runs a call against the requested model and, on quota or overload
+ * errors, against each fallback model the key may use in turn, moving
+ * the slot to that model. Records the model that served the request in
+ * the context.
+ */
+async function withFallback<T>(
+  request: ChatRequest,
+  context: RequestContext | undefined,
+  signal: AbortSignal | undefined,
+  slot: Slot,
+  call: (model: string) => Promise<T>,
+): Promise<T> {
   // Use request model if provided, otherwise fall back to startup model
-  const effectiveModel = model ?? modelName;
+  const requested = request.model ?? modelName;
+  const position = MODEL_FALLBACKS.indexOf(requested);
+  const chain = position === -1
+    ? [requested]
+    : MODEL_FALLBACKS.slice(position).filter((m, i) => i === 0 || isModelAllowed(context?.key, m));
 
-  // Merge tools into config if provided (for Google Search grounding)
-  const config = tools?.length ? { ...generationConfig, tools } : generationConfig;
+  for (let i = 0; ; i++) {
+    try {
+      if (i > 0) await slot.moveTo(chain[i]);
+      const result = await withRetries(chain[i], slot, () => call(chain[i]), signal);
+      if (context) context.servedModel = chain[i];
+      if (i > 0) {
+        console.log(`Request for ${requested} served by fallback model ${chain[i]}`);
+        context?.onFallback?.(chain[i]);
+      }
+      return result;
+    } catch (err) {
+      if (i === chain.length - 1 || signal?.aborted || !isFallbackError(err)) throw err;
+      console.warn(`Gemini ${chain[i]} unavailable (HTTP ${getErrorStatus(err) ?? '?'}), falling back to ${chain[i + 1]}`);
+    }
+  }
+}
 
-  return await generator.generateContent({
-    model: effectiveModel,
-    contents,
-    config,
-    systemInstruction,
-  });
+/**
+ * Looks a request up in the response cache. Returns the cache key, to
+ * store the response under on a miss, and the cached reply on a hit.
+ */
+async function lookupCache(
+  request: ChatRequest,
+  stream: boolean,
+  context: RequestContext | undefined,
+): Promise<{ cacheKey?: string; cached?: CachedResponse }> {
+  const requested = request.model ?? modelName;
+  const { contents, systemInstruction } = request;
+  const cacheKey = responseCacheKey({ model: requested, contents, config: buildConfig(request), systemInstruction }, stream, context);
+  const cached = cacheKey ? await getCachedResponse(cacheKey, context) : undefined;
+  if (cached) {
+    if (context) context.servedModel = cached.model;
+    if (cached.model !== requested) context?.onFallback?.(cached.model);
+  }
+  return { cacheKey, cached };
+}
+
+/**
+ * Logs a request the client abandoned, with the output tokens Gemini
+ * had generated by then.
+ */
+function logCancelled(request: ChatRequest, context: RequestContext | undefined, usage?: GeminiUsageMetadata) {
+  const model = context?.servedModel ?? request.model ?? modelName;
+  const tokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+  console.log(`✖ client disconnected, cancelled ${model} request after ${tokens} generated tokens`);
 }
 
-export async function* sendChatStream(
+/**
+ * Sends a request and waits for the whole response. Cancelled when the
+ * context's signal aborts, and after REQUEST_TIMEOUT_MS overall; time
+ * spent queued for a concurrency slot doesn't count.
+ */
+export async function sendChat(request: ChatRequest, context?: RequestContext): Promise<GeminiResponse> {
+  const { contents, systemInstruction } = request;
+  // The default model is only known once the generator is ready
+  const generator = await generatorPromise;
+  const { cacheKey, cached } = await lookupCache(request, false, context);
+  if (cached?.response) return structuredClone(cached.response);
+
+  const slot = await takeSlot(request.model ?? modelName, context);
+
+  const timeout = REQUEST_TIMEOUT_MS > 0 ? AbortSignal.timeout(REQUEST_TIMEOUT_MS) : undefined;
+  const signals = [context?.signal, timeout].filter((s): s is AbortSignal => s !== undefined);
+  const signal = signals.length ? AbortSignal.any(signals) : undefined;
+  const config = { ...buildConfig(request), abortSignal: signal };
+
+  let response: GeminiResponse;
+  try {
+    response = await withFallback(request, context, signal, slot, (model) => generator.generateContent({
+      model,
+      contents,
+      config,
+      systemInstruction,
+    }));
+  } catch (err) {
+    if (context?.signal?.aborted) {
+      logCancelled(request, context);
+    } else if (timeout?.aborted) {
+      throw new RequestTimeoutError(`Request timed out after ${REQUEST_TIMEOUT_MS}ms`);
+    }
+    throw err;
+  } finally {
+    slot.release();
+  }
+  response.modelVersion ??= context?.servedModel;
+  if (response.usageMetadata) context?.onUsage?.(response.usageMetadata);
+  if (cacheKey) {
+    cacheResponse(cacheKey, { model: context?.servedModel ?? request.model ?? modelName, response: structuredClone(response) });
+  }
+  return response;
+}
+
+/**
+ * Opens a response stream. The returned promise resolves once the first
+ * chunk has arrived, so retries and fallback happen before anything is
+ * sent to the client, and failures can still get a proper HTTP status.
+ * The concurrency slot is held until the stream ends. A cached stream
+ * is replayed chunk by chunk.
+ */
+export async function sendChatStream(
   request: ChatRequest,
-): AsyncGenerator<GeminiStreamChunk> {
-  const { model, contents, generationConfig = {}, systemInstruction, tools } = request;
+  context?: RequestContext,
+): Promise<AsyncGenerator<GeminiStreamChunk>> {
+  const { contents, systemInstruction } = request;
   const generator = await generatorPromise;
+  const { cacheKey, cached } = await lookupCache(request, true, context);
+  if (cached?.chunks) return replayStream(cached.chunks);
 
-  // Use request model if provided, otherwise fall back to startup model
-  const effectiveModel = model ?? modelName;
+  const signal = context?.signal;
+  const config = { ...buildConfig(request), abortSignal: signal };
+  const slot = await takeSlot(request.model ?? modelName, context);
+
+  try {
+    const { stream, first } = await withFallback(request, context, signal, slot, async (model) => {
+      const response = await generator.generateContentStream({
+        model,
+        contents,
+        config,
+        systemInstruction,
+      });
+      const stream = response[Symbol.asyncIterator]();
+      return { stream, first: await stream.next() };
+    });
 
-  // Merge tools into config if provided (for Google Search grounding)
-  const config = tools?.length ? { ...generationConfig, tools } : generationConfig;
+    return relayStream(request, stream, first, context, slot.release, cacheKey);
+  } catch (err) {
+    slot.release();
+    if (signal?.aborted) logCancelled(request, context);
+    throw err;
+  }
+}
 
-  const stream = await generator.generateContentStream({
-    model: effectiveModel,
-    contents,
-    config,
+async function* relayStream(
+  request: ChatRequest,
+  stream: AsyncIterator<GeminiStreamChunk>,
+  first: IteratorResult<GeminiStreamChunk>,
+  context: RequestContext | undefined,
+  release: () => void,
+  cacheKey?: string,
+): AsyncGenerator<GeminiStreamChunk> {
+  // Usage is cumulative; charge the last report, even if the client left early
+  let usage: GeminiUsageMetadata | undefined;
+  const chunks: GeminiStreamChunk[] = [];
+  try {
+    for (let next = first; !next.done; next = await stream.next()) {
+      usage = next.value?.usageMetadata ?? usage;
+      if (cacheKey) chunks.push(structuredClone(next.value));
+      yield next.value;
+    }
+    // Only a stream that ran to the end is worth replaying
+    if (cacheKey) cacheResponse(cacheKey, { model: context?.servedModel ?? request.model ?? modelName, chunks });
+  } finally {
+    release();
+    await stream.return?.();
+    if (usage) context?.onUsage?.(usage);
+    if (context?.signal?.aborted) logCancelled(request, context, usage);
+  }
+}
+
+async function* replayStream(chunks: GeminiStreamChunk[]): AsyncGenerator<GeminiStreamChunk> {
+  for (const chunk of chunks) yield structuredClone(chunk);
+}
+
+/**
+ * Counts the prompt tokens of a chat request. The Gemini API only counts
+ * `contents`, so the system instruction and tool declarations are
+ * counted as leading text.
+ */
+export async function countTokens(request: ChatRequest, context?: RequestContext): Promise<number> {
+  const { model, contents, systemInstruction, tools } = request;
+  const generator = await generatorPromise;
+
+  const preamble = [
     systemInstruction,
-  });
-  for await (const chunk of stream) yield chunk;
+    tools?.length ? JSON.stringify(tools) : undefined,
+  ].filter((t): t is string => Boolean(t));
+
+  const release = await acquireSlot(model ?? modelName, context);
+  try {
+    const result = await generator.countTokens({
+      model: model ?? modelName,
+      contents: preamble.length
+        ? [{ role: 'user', parts: preamble.map((text) => ({ text })) }, ...contents]
+        : contents,
+    });
+    return result.totalTokens ?? 0;
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Request parameters for embedding a batch of texts.
+ */
+interface EmbedRequest {
+  model?: string;
+  texts: string[];
+  outputDimensionality?: number;
+}
+
+export async function sendEmbed(request: EmbedRequest, context?: RequestContext): Promise<GeminiEmbedResponse> {
+  const { model, texts, outputDimensionality } = request;
+  const generator = await generatorPromise;
+
+  const release = await acquireSlot(model ?? embeddingModel, context);
+  try {
+    return await generator.embedContent({
+      model: model ?? embeddingModel,
+      contents: texts,
+      config: outputDimensionality ? { outputDimensionality } : undefined,
+    });
+  } finally {
+    release();
+  }
+}
+
+/**
+ * The Gemini API key, when requests go straight to the Gemini API with
+ * one. Only then can prompts reference Gemini File API uploads.
+ */
+export function getGeminiApiKey(): string | undefined {
+  return authTypeEnum === 'gemini-api-key' ? process.env.GEMINI_API_KEY : undefined;
 }
 
 /* ------------------------------------------------------------------ */
@@ -160,6 +493,21 @@ const MODEL_DESCRIPTIONS: Record<string, string> = {
   'gemini-2.5-flash-lite': 'Lightweight flash model for simple tasks',
 };
 
+// Embedding models served by /v1/embeddings
+const EMBEDDING_MODELS: Record<string, string> = {
+  'gemini-embedding-001': 'Embedding model, up to 3072 dimensions',
+  'text-embedding-004': 'Legacy embedding model, 768 dimensions',
+};
+
+/**
+ * Resolves the embedding model for a request. OpenAI model names (and
+ * anything else we don't serve) fall back to the configured default,
+ * so clients with a hard-coded `text-embedding-3-*` keep working.
+ */
+export function getEmbeddingModel(requested?: string): string {
+  return requested && requested in EMBEDDING_MODELS ? requested : embeddingModel;
+}
+
 export function listModels() {
   // Get models from gemini-cli-core's valid models set
   const models = Array.from(VALID_GEMINI_MODELS);
@@ -172,13 +520,33 @@ export function listModels() {
     return b.localeCompare(a); // Newer versions first within each group
   });
 
-  return models.map(id => ({
+  const chatModels = models.map(id => ({
     id,
     object: 'model',
     owned_by: 'google',
     description: MODEL_DESCRIPTIONS[id] ?? id,
     active: id === modelName,
   }));
+
+  const embedModels = Object.entries(EMBEDDING_MODELS).map(([id, description]) => ({
+    id,
+    object: 'model',
+    owned_by: 'google',
+    description,
+    active: id === embeddingModel,
+  }));
+
+  return [...chatModels, ...embedModels];
+}
+
+/**
+ * Resolves the chat model for a request from another API family.
+ * Only Gemini model names are passed through; anything else (Claude
+ * or Ollama names) means the configured default.
+ */
+export function resolveModel(requested?: string): string | undefined {
+  const name = requested?.replace(/:latest$/, '');
+  return name?.startsWith('gemini') ? name : undefined;
 }
 
 export function getModel() {
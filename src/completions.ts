@@ -0,0 +1,217 @@
+/* ------------------------------------------------------------------ */
+/*  completions.ts – Legacy OpenAI text completions (/v1/completions)  */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { randomUUID } from 'crypto';
+import { sendChat, sendChatStream, getModel, resolveModel } from './chatwrapper';
+import { mapRequest, mapResponse, mapResponseError, createStreamMapper } from './mapper';
+import { applyKeyPolicy } from './auth';
+import { checkRateLimit } from './ratelimit';
+import { readJSON, sendJSON, sendError, sendStreamError } from './http';
+import { classifyError } from './errors';
+import { validateChatRequest, validateCompletionRequest, createError } from './validation';
+import type {
+  RequestContext,
+  OpenAIChatRequest,
+  OpenAICompletionChoice,
+  OpenAICompletionRequest,
+  OpenAICompletionResponse,
+  OpenAIUsage,
+} from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// Gemini only chats, so the prompt is framed as text to continue
+const COMPLETION_INSTRUCTION = 'Continue the text in the user message. Reply with the continuation only: '
+  + 'do not repeat the text, add commentary, or wrap the reply in quotes or code blocks.';
+
+/* ── Helpers ───────────────────────────────────────────────────────── */
+
+/**
+ * Wraps one prompt as a single user turn. Gemini has no fill-in-the-middle
+ * mode, so `suffix` is passed to the model as part of the instruction.
+ */
+function toChatRequest(body: OpenAICompletionRequest, prompt: string): OpenAIChatRequest {
+  const instruction = body.suffix
+    ? `${COMPLETION_INSTRUCTION} The continuation will be followed by the text below, `
+      + `so it must lead into it naturally:\n\n${body.suffix}`
+    : COMPLETION_INSTRUCTION;
+
+  return {
+    model: resolveModel(body.model),
+    messages: [
+      { role: 'system', content: instruction },
+      { role: 'user', content: prompt },
+    ],
+    stream: body.stream,
+    max_tokens: body.max_tokens,
+    stop: body.stop,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    n: body.n,
+    presence_penalty: body.presence_penalty,
+    frequency_penalty: body.frequency_penalty,
+    seed: body.seed,
+    user: body.user,
+    include_reasoning: false,
+    reasoning_output: 'hidden',
+  };
+}
+
+function addUsage(total: OpenAIUsage, usage: OpenAIUsage | undefined) {
+  total.prompt_tokens += usage?.prompt_tokens ?? 0;
+  total.completion_tokens += usage?.completion_tokens ?? 0;
+  total.total_tokens += usage?.total_tokens ?? 0;
+}
+
+/* ── Handler ───────────────────────────────────────────────────────── */
+
+/**
+ * Handles POST /v1/completions. A batch of prompts is answered one
+ * prompt at a time; choice `index` runs across the whole batch, as in
+ * the OpenAI API.
+ */
+export async function handleCompletions(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  let rawBody: unknown;
+  try {
+    rawBody = await readJSON(req);
+  } catch {
+    console.log('HTTP 400: malformed JSON');
+    sendError(res, 400, createError('Invalid JSON in request body', 'invalid_request_error', 'invalid_json'));
+    return;
+  }
+
+  const validation = validateCompletionRequest(rawBody);
+  if (!validation.valid) {
+    console.log('HTTP 400: validation failed');
+    sendError(res, 400, validation.error);
+    return;
+  }
+  const body = validation.value;
+
+  const prompts = typeof body.prompt === 'string' ? [body.prompt] : body.prompt;
+  const chatRequests = prompts.map((prompt) => toChatRequest(body, prompt));
+  for (const chatRequest of chatRequests) {
+    const chatValidation = validateChatRequest(chatRequest);
+    if (!chatValidation.valid) {
+      console.log('HTTP 400: validation failed');
+      sendError(res, 400, chatValidation.error);
+      return;
+    }
+
+    const denied = applyKeyPolicy(chatRequest, context.key)
+      ?? checkRateLimit(res, context, chatRequest.model);
+    if (denied) {
+      console.log(`HTTP ${denied.status}: ${denied.error.error.message}`);
+      sendError(res, denied.status, denied.error);
+      return;
+    }
+  }
+
+  const base = {
+    id: `cmpl-${randomUUID().replace(/-/g, '')}`,
+    object: 'text_completion' as const,
+    created: Math.floor(Date.now() / 1000),
+    model: chatRequests[0].model ?? getModel(),
+  };
+  const usage: OpenAIUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  const n = body.n ?? 1;
+
+  try {
+    if (body.stream) {
+      const writeChunk = (choice: OpenAICompletionChoice, extra: Partial<OpenAICompletionResponse> = {}) => {
+        res.write(`data: ${JSON.stringify({ ...base, choices: [choice], ...extra })}\n\n`);
+      };
+
+      for (const [index, chatRequest] of chatRequests.entries()) {
+        const { geminiReq, responseOptions } = await mapRequest(chatRequest, context);
+        const mapper = createStreamMapper(responseOptions);
+        let promptUsage: OpenAIUsage | undefined;
+
+        // The first stream is opened before the headers so upstream
+        // failures still get an HTTP status
+        const stream = await sendChatStream(geminiReq, context);
+        base.model = context.servedModel ?? base.model;
+        if (!res.headersSent) {
+          res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+          });
+          console.log('➜ sending HTTP 200 streamed completion');
+        }
+
+        if (body.echo) {
+          writeChunk({ text: prompts[index], index, logprobs: null, finish_reason: null });
+        }
+
+        for await (const chunk of stream) {
+          for (const mapped of mapper.mapChunk(chunk)) {
+            promptUsage = mapped.usage ?? promptUsage;
+            const text = mapped.choices[0]?.delta.content;
+            if (text) writeChunk({ text, index, logprobs: null, finish_reason: null });
+          }
+        }
+        addUsage(usage, promptUsage);
+
+        const closing = mapper.finish().choices[0];
+        const isLast = index === chatRequests.length - 1;
+        writeChunk(
+          { text: closing.delta.content ?? '', index, logprobs: null, finish_reason: closing.finish_reason ?? 'stop' },
+          isLast ? { usage } : {},
+        );
+      }
+
+      res.end('data: [DONE]\n\n');
+
+      console.log('➜ done sending streamed completion');
+    } else {
+      const choices: OpenAICompletionChoice[] = [];
+
+      for (const [index, chatRequest] of chatRequests.entries()) {
+        const { geminiReq, responseOptions } = await mapRequest(chatRequest, context);
+        const gResp = await sendChat(geminiReq, context);
+        base.model = context.servedModel ?? base.model;
+
+        const failure = mapResponseError(gResp);
+        if (failure) {
+          console.log(`HTTP ${failure.status}: ${failure.error.error.message}`);
+          sendError(res, failure.status, failure.error);
+          return;
+        }
+
+        const mapped = mapResponse(gResp, responseOptions);
+        addUsage(usage, mapped.usage);
+        for (const choice of mapped.choices) {
+          choices.push({
+            text: (body.echo ? prompts[index] : '') + (choice.message.content ?? ''),
+            index: index * n + choice.index,
+            logprobs: null,
+            finish_reason: choice.finish_reason,
+          });
+        }
+      }
+
+      const response: OpenAICompletionResponse = { ...base, choices, usage };
+      sendJSON(res, 200, response);
+
+      console.log('✅ Replied HTTP 200 completion', response);
+    }
+  } catch (err: unknown) {
+    if (context.signal?.aborted) return;
+
+    const failure = classifyError(err);
+    console.error(`HTTP ${failure.status} Proxy error ➜`, err);
+
+    // Once streaming has started the status is sent; report in-band
+    if (res.headersSent) {
+      sendStreamError(res, failure.error);
+    } else {
+      sendError(res, failure.status, failure.error);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/* ------------------------------------------------------------------ */
+/*  embeddings.ts – OpenAI embeddings ⇆ Gemini embedContent            */
+/* ------------------------------------------------------------------ */
+import { sendEmbed, getEmbeddingModel } from './chatwrapper';
+import type {
+  OpenAIEmbedding,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse,
+  RequestContext,
+} from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// Gemini's batchEmbedContents takes at most this many texts per call
+const MAX_EMBEDDING_BATCH_SIZE = 100;
+
+// Maximum number of texts sent to Gemini in one embedContent call
+const EMBEDDING_BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE ?? MAX_EMBEDDING_BATCH_SIZE);
+if (!Number.isInteger(EMBEDDING_BATCH_SIZE) || EMBEDDING_BATCH_SIZE <= 0 || EMBEDDING_BATCH_SIZE > MAX_EMBEDDING_BATCH_SIZE) {
+  throw new Error(
+    `EMBEDDING_BATCH_SIZE must be an integer from 1 to ${MAX_EMBEDDING_BATCH_SIZE}, got "${process.env.EMBEDDING_BATCH_SIZE}"`,
+  );
+}
+
+/* ── Helpers ───────────────────────────────────────────────────────── */
+
+/**
+ * Encodes an embedding the way OpenAI's `encoding_format: "base64"` does:
+ * little-endian float32 values, base64-encoded.
+ */
+function toBase64(values: number[]): string {
+  const buf = Buffer.alloc(values.length * 4);
+  values.forEach((v, i) => buf.writeFloatLE(v, i * 4));
+  return buf.toString('base64');
+}
+
+/**
+ * Rough token estimate for when Gemini doesn't report counts
+ * (only Vertex AI returns embedding token statistics).
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/* ── Exported function ─────────────────────────────────────────────── */
+
+/**
+ * Embeds the request input with a Gemini embedding model, splitting it
+ * into batches, and returns an OpenAI-style embeddings list.
+ */
+export async function createEmbeddings(
+  body: OpenAIEmbeddingRequest,
+  context?: RequestContext,
+): Promise<OpenAIEmbeddingResponse> {
+  const texts = typeof body.input === 'string' ? [body.input] : body.input;
+  const model = getEmbeddingModel(body.model);
+  const data: OpenAIEmbedding[] = [];
+  let promptTokens = 0;
+
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const gResp = await sendEmbed({
+      model,
+      texts: batch,
+      outputDimensionality: body.dimensions,
+    }, context);
+
+    const embeddings = gResp.embeddings ?? [];
+    if (embeddings.length !== batch.length) {
+      throw new Error(`Gemini returned ${embeddings.length} embeddings for ${batch.length} inputs`);
+    }
+
+    embeddings.forEach((e, i) => {
+      const values = e.values ?? [];
+      data.push({
+        object: 'embedding',
+        index: start + i,
+        embedding: body.encoding_format === 'base64' ? toBase64(values) : values,
+      });
+      promptTokens += e.statistics?.tokenCount ?? estimateTokens(batch[i]);
+    });
+  }
+
+  return {
+    object: 'list',
+    data,
+    model,
+    usage: {
+      prompt_tokens: promptTokens,
+      total_tokens: promptTokens,
+    },
+  };
+}
@@ -0,0 +1,274 @@
+/* ------------------------------------------------------------------ */
+/*  errors.ts – Inspecting errors thrown by the Gemini client          */
+/* ------------------------------------------------------------------ */
+import { ImageFetchError } from './remoteimage';
+import { createError } from './validation';
+import type { MappedError, UpstreamErrorDetail } from './types';
+
+// Node network errors worth retrying
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+]);
+
+/**
+ * Google API error body, as embedded (often as a JSON string) in the
+ * errors thrown by @google/genai and the Code Assist client.
+ */
+interface GoogleApiError {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: Array<Record<string, unknown>>;
+}
+
+/**
+ * Thrown when a non-streaming request runs past its overall time limit.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a message references an uploaded file that can't be sent.
+ */
+export class FileReferenceError extends Error {
+  constructor(message: string, readonly code: 'file_not_found' | 'unsupported_mime_type' | 'file_too_large') {
+    super(message);
+    this.name = 'FileReferenceError';
+  }
+}
+
+/**
+ * Thrown when a request can't get a concurrency slot: the queue is full,
+ * or the request waited past QUEUE_TIMEOUT_MS.
+ */
+export class QueueRejectedError extends Error {
+  constructor(message: string, readonly code: 'queue_full' | 'queue_timeout') {
+    super(message);
+    this.name = 'QueueRejectedError';
+  }
+}
+
+type ErrorLike = {
+  name?: string;
+  message?: string;
+  status?: unknown;
+  code?: unknown;
+  cause?: unknown;
+  retryDelayMs?: unknown;
+  response?: { status?: unknown; headers?: unknown };
+};
+
+function asErrorLike(err: unknown): ErrorLike {
+  return typeof err === 'object' && err !== null ? err as ErrorLike : {};
+}
+
+/**
+ * Finds the Google API error body in an error message, which may be
+ * nested JSON several levels deep.
+ */
+export function parseGoogleError(err: unknown): GoogleApiError | undefined {
+  let text = asErrorLike(err).message;
+  let found: GoogleApiError | undefined;
+
+  for (let depth = 0; depth < 5 && typeof text === 'string'; depth++) {
+    const start = text.indexOf('{');
+    if (start === -1) break;
+    try {
+      const parsed = JSON.parse(text.slice(start)) as { error?: GoogleApiError } | GoogleApiError[];
+      const body = Array.isArray(parsed) ? (parsed[0] as { error?: GoogleApiError })?.error : parsed.error;
+      if (!body) break;
+      found = body;
+      text = body.message;
+    } catch {
+      break;
+    }
+  }
+  return found;
+}
+
+/**
+ * Returns the upstream HTTP status of an error, if it carries one.
+ */
+export function getErrorStatus(err: unknown): number | undefined {
+  const e = asErrorLike(err);
+  if (typeof e.status === 'number') return e.status;
+  if (typeof e.response?.status === 'number') return e.response.status;
+  if (typeof e.code === 'number') return e.code;
+  return parseGoogleError(err)?.code;
+}
+
+function parseDelay(value: string): number | undefined {
+  const match = value.trim().match(/^([0-9.]+)\s*(ms|s)?$/);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  return match[2] === 'ms' ? amount : amount * 1000;
+}
+
+/**
+ * Returns how long upstream asked us to wait, in milliseconds: from a
+ * `retry-after` header, a RetryInfo detail, or "Please retry in …".
+ */
+export function getRetryAfterMs(err: unknown): number | undefined {
+  const e = asErrorLike(err);
+  if (typeof e.retryDelayMs === 'number') return e.retryDelayMs;
+
+  const headers = e.response?.headers as { get?: (name: string) => string | null } & Record<string, unknown>;
+  const header = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (typeof header === 'string') {
+    const delay = parseDelay(header);
+    if (delay !== undefined) return delay;
+  }
+
+  const retryInfo = parseGoogleError(err)?.details?.find((d) => String(d['@type']).endsWith('RetryInfo'));
+  if (typeof retryInfo?.retryDelay === 'string') {
+    return parseDelay(retryInfo.retryDelay);
+  }
+
+  const match = e.message?.match(/Please retry in ([0-9.]+(?:ms|s))/);
+  return match ? parseDelay(match[1]) : undefined;
+}
+
+/**
+ * True for quota that won't come back soon (e.g. a daily limit, or the
+ * OAuth free tier running out), where retrying the same model is futile.
+ */
+export function isQuotaExhausted(err: unknown): boolean {
+  const e = asErrorLike(err);
+  if (e.name === 'TerminalQuotaError') return true;
+  if (getErrorStatus(err) !== 429) return false;
+  const message = parseGoogleError(err)?.message ?? e.message ?? '';
+  return /per ?day|daily|exhausted your|quota exceeded for quota metric/i.test(message);
+}
+
+/**
+ * True for transient failures: network errors, 429s that aren't an
+ * exhausted quota, 5xx responses other than 501, and a full queue.
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof QueueRejectedError) return true;
+
+  const e = asErrorLike(err);
+  const code = typeof e.code === 'string' ? e.code : asErrorLike(e.cause).code;
+  if (typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)) return true;
+
+  const status = getErrorStatus(err);
+  if (status === 429) return !isQuotaExhausted(err);
+  return status !== undefined && status >= 500 && status < 600 && status !== 501;
+}
+
+/**
+ * True for quota and overload errors, where another model may still
+ * be able to serve the request.
+ */
+export function isFallbackError(err: unknown): boolean {
+  const status = getErrorStatus(err);
+  return status === 429 || status === 503 || status === 529 || isQuotaExhausted(err);
+}
+
+/* ── Classification ────────────────────────────────────────────────── */
+
+// Image fetch failures ➞ HTTP status
+const IMAGE_FETCH_STATUS: Record<ImageFetchError['code'], number> = {
+  image_fetch_failed: 400,
+  image_fetch_timeout: 408,
+  image_too_large: 413,
+  image_url_blocked: 400,
+  unsupported_image_type: 400,
+};
+
+// Unusable file_id references ➞ HTTP status
+const FILE_REFERENCE_STATUS: Record<FileReferenceError['code'], number> = {
+  file_not_found: 404,
+  unsupported_mime_type: 400,
+  file_too_large: 413,
+};
+
+// Upstream HTTP status ➞ OpenAI status, type and code
+const UPSTREAM_ERRORS: Record<number, [number, string, string | null]> = {
+  400: [400, 'invalid_request_error', null],
+  401: [401, 'authentication_error', 'upstream_unauthorized'],
+  403: [403, 'permission_error', 'upstream_permission_denied'],
+  404: [404, 'invalid_request_error', 'model_not_found'],
+  413: [413, 'invalid_request_error', 'request_too_large'],
+  429: [429, 'requests', 'rate_limit_exceeded'],
+  503: [503, 'server_error', 'overloaded'],
+  529: [503, 'server_error', 'overloaded'],
+};
+
+// Errors the Gemini CLI core raises without an HTTP status
+const NAMED_STATUSES: Record<string, number> = {
+  UnauthorizedError: 401,
+  FatalAuthenticationError: 401,
+  ForbiddenError: 403,
+  BadRequestError: 400,
+  RetryableQuotaError: 429,
+  TerminalQuotaError: 429,
+};
+
+function upstreamDetail(err: unknown, status: number | undefined): UpstreamErrorDetail {
+  const google = parseGoogleError(err);
+  return {
+    status,
+    reason: google?.status,
+    message: google?.message ?? asErrorLike(err).message ?? String(err),
+    details: google?.details,
+  };
+}
+
+/**
+ * Maps an error thrown while serving a request to an OpenAI-style error
+ * and status. Upstream errors keep what Gemini reported in `upstream`;
+ * anything unrecognised is a 500.
+ */
+export function classifyError(err: unknown): MappedError {
+  const e = asErrorLike(err);
+  const message = e.message ?? 'Unknown error';
+
+  if (err instanceof ImageFetchError) {
+    return { status: IMAGE_FETCH_STATUS[err.code], error: createError(message, 'invalid_request_error', err.code) };
+  }
+
+  if (err instanceof FileReferenceError) {
+    return { status: FILE_REFERENCE_STATUS[err.code], error: createError(message, 'invalid_request_error', err.code) };
+  }
+
+  if (err instanceof QueueRejectedError) {
+    return err.code === 'queue_full'
+      ? { status: 429, error: createError(message, 'requests', 'queue_full') }
+      : { status: 503, error: createError(message, 'server_error', 'queue_timeout') };
+  }
+
+  if (err instanceof RequestTimeoutError) {
+    return { status: 504, error: createError(message, 'api_error', 'request_timeout') };
+  }
+
+  const networkCode = typeof e.code === 'string' ? e.code : asErrorLike(e.cause).code;
+  if (typeof networkCode === 'string' && RETRYABLE_NETWORK_CODES.has(networkCode)) {
+    return { status: 502, error: createError(`Could not reach the Gemini API: ${message}`, 'api_error', 'upstream_unreachable') };
+  }
+
+  const status = getErrorStatus(err)
+    ?? NAMED_STATUSES[e.name ?? '']
+    ?? NAMED_STATUSES[(err as object | undefined)?.constructor?.name ?? ''];
+  if (status === undefined) {
+    return { status: 500, error: createError(message, 'api_error') };
+  }
+
+  const [mapped, type, code] = isQuotaExhausted(err)
+    ? [429, 'insufficient_quota', 'insufficient_quota']
+    : UPSTREAM_ERRORS[status]
+      ?? (status >= 500 ? [502, 'api_error', 'upstream_error'] : [400, 'invalid_request_error', 'upstream_error']);
+  const upstream = upstreamDetail(err, status);
+  const error = createError(upstream.message, type, code);
+  error.error.upstream = upstream;
+  return { status: mapped, error };
+}
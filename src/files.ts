@@ -0,0 +1,440 @@
+/* ------------------------------------------------------------------ */
+/*  files.ts – Uploaded files (/v1/files) and file_id references       */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { getGeminiApiKey } from './chatwrapper';
+import { isSupportedMimeType, mimeTypeForFilename } from './attachments';
+import { FileReferenceError } from './errors';
+import { parseMultipart, PayloadTooLargeError, readBody, sendError, sendJSON } from './http';
+import { createStore, DATA_DIR } from './store';
+import { createError } from './validation';
+import type { ApiKey, GeminiPart, OpenAIFile, OpenAIFilePurpose, RequestContext } from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// Largest file POST /v1/files accepts (default 50 MB)
+const FILES_MAX_BYTES = Number(process.env.FILES_MAX_BYTES ?? 50 * 1024 * 1024);
+
+// Total size of the files one API key may keep (default 1 GB, 0 = no limit)
+const FILES_QUOTA_BYTES = Number(process.env.FILES_QUOTA_BYTES ?? 1024 * 1024 * 1024);
+
+// How long files are kept when the upload sets no `expires_after`
+// (default 30 days, 0 = until deleted)
+const FILES_TTL_MS = Number(process.env.FILES_TTL_MS ?? 30 * 24 * 60 * 60 * 1000);
+
+// With API key auth, referenced files go to Gemini through its File API
+// instead of inline; set to false to always send them inline
+const GEMINI_FILE_API = process.env.FILES_GEMINI_UPLOAD !== 'false';
+
+// Gemini rejects requests whose inline data passes 20 MB
+const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+// Room for the multipart headers and form fields around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+
+const PURPOSES: OpenAIFilePurpose[] = ['assistants', 'batch', 'fine-tune', 'vision', 'user_data', 'evals'];
+
+/* ── Storage ───────────────────────────────────────────────────────── */
+
+/**
+ * A stored file: its OpenAI file object, the name of the API key that
+ * uploaded it (when auth is enabled), and the Gemini File API copy
+ * while one is live.
+ */
+interface StoredFile {
+  file: OpenAIFile;
+  owner?: string;
+  mimeType: string;
+  gemini?: { uri: string; expiresAt: number };
+}
+
+const fileStore = createStore<StoredFile>('files');
+
+// File bytes live beside the metadata records, one file per id
+const CONTENT_DIR = path.join(DATA_DIR, 'file-content');
+
+function contentPath(id: string): string {
+  return path.join(CONTENT_DIR, id);
+}
+
+function isExpired(stored: StoredFile): boolean {
+  return stored.file.expires_at !== null && stored.file.expires_at * 1000 <= Date.now();
+}
+
+async function removeFile(id: string): Promise<boolean> {
+  await fs.rm(contentPath(id), { force: true });
+  return fileStore.delete(id);
+}
+
+/**
+ * Loads a stored file, treating expired files and other keys' files as
+ * missing. Expired files are deleted on the way.
+ */
+async function loadFile(id: string, key: ApiKey | undefined): Promise<StoredFile | undefined> {
+  const stored = await fileStore.get(id);
+  if (!stored) return undefined;
+  if (isExpired(stored)) {
+    await removeFile(id);
+    return undefined;
+  }
+  return stored.owner === key?.name ? stored : undefined;
+}
+
+/**
+ * Deletes every expired file and returns the rest.
+ */
+async function sweepExpired(): Promise<StoredFile[]> {
+  const kept: StoredFile[] = [];
+  for (const stored of await fileStore.list()) {
+    if (isExpired(stored)) {
+      await removeFile(stored.file.id);
+    } else {
+      kept.push(stored);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Stores a file for an API key. The MIME type defaults to a guess from
+ * the filename, and the lifetime to FILES_TTL_MS.
+ */
+export async function storeFile(data: Buffer, options: {
+  filename: string;
+  purpose: OpenAIFilePurpose;
+  mimeType?: string;
+  key: ApiKey | undefined;
+  ttlSeconds?: number;
+}): Promise<OpenAIFile> {
+  const createdAt = Math.floor(Date.now() / 1000);
+  const ttlSeconds = options.ttlSeconds ?? (FILES_TTL_MS > 0 ? Math.ceil(FILES_TTL_MS / 1000) : null);
+  const stored: StoredFile = {
+    file: {
+      id: `file-${randomUUID().replace(/-/g, '')}`,
+      object: 'file',
+      bytes: data.length,
+      created_at: createdAt,
+      expires_at: ttlSeconds !== null ? createdAt + ttlSeconds : null,
+      filename: path.basename(options.filename),
+      purpose: options.purpose,
+      status: 'processed',
+      status_details: null,
+    },
+    owner: options.key?.name,
+    mimeType: options.mimeType ?? mimeTypeForFilename(options.filename) ?? 'application/octet-stream',
+  };
+
+  await fs.mkdir(CONTENT_DIR, { recursive: true });
+  await fs.writeFile(contentPath(stored.file.id), data);
+  await fileStore.put(stored.file.id, stored);
+  return stored.file;
+}
+
+/**
+ * Reads a stored file and its bytes, treating files that are expired or
+ * belong to other keys as missing.
+ */
+export async function readStoredFile(
+  id: string,
+  key: ApiKey | undefined,
+): Promise<{ file: OpenAIFile; mimeType: string; data: Buffer } | undefined> {
+  const stored = await loadFile(id, key);
+  if (!stored) return undefined;
+  try {
+    return { file: stored.file, mimeType: stored.mimeType, data: await fs.readFile(contentPath(id)) };
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+}
+
+/* ── Gemini File API ───────────────────────────────────────────────── */
+
+/**
+ * File resource returned by the Gemini File API.
+ */
+interface GeminiFile {
+  name: string;
+  uri: string;
+  state?: 'PROCESSING' | 'ACTIVE' | 'FAILED';
+  expirationTime?: string;
+}
+
+/**
+ * Uploads a file with the File API's resumable protocol and waits until
+ * Gemini has processed it.
+ */
+async function uploadToGemini(stored: StoredFile, data: Buffer, apiKey: string, signal?: AbortSignal) {
+  const start = await fetch(`${GEMINI_API_URL}/upload/v1beta/files`, {
+    method: 'POST',
+    headers: {
+      'x-goog-api-key': apiKey,
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(data.length),
+      'X-Goog-Upload-Header-Content-Type': stored.mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { displayName: stored.file.filename } }),
+    signal,
+  });
+  const uploadUrl = start.headers.get('x-goog-upload-url');
+  if (!start.ok || !uploadUrl) {
+    throw new Error(`Gemini File API upload failed to start: HTTP ${start.status}`);
+  }
+
+  const upload = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Offset': '0', 'X-Goog-Upload-Command': 'upload, finalize' },
+    body: new Uint8Array(data),
+    signal,
+  });
+  if (!upload.ok) throw new Error(`Gemini File API upload failed: HTTP ${upload.status}`);
+  let { file } = await upload.json() as { file: GeminiFile };
+
+  // Video and large documents are processed before they can be used
+  for (let attempt = 0; file.state === 'PROCESSING' && attempt < 60; attempt++) {
+    await sleep(2_000, undefined, { signal });
+    const poll = await fetch(`${GEMINI_API_URL}/v1beta/${file.name}`, {
+      headers: { 'x-goog-api-key': apiKey },
+      signal,
+    });
+    if (!poll.ok) throw new Error(`Gemini File API status check failed: HTTP ${poll.status}`);
+    file = await poll.json() as GeminiFile;
+  }
+  if (file.state && file.state !== 'ACTIVE') {
+    throw new Error(`Gemini File API left ${file.name} in state ${file.state}`);
+  }
+
+  // Uploads are kept for 48 hours when Gemini doesn't say otherwise
+  const expiresAt = file.expirationTime ? Date.parse(file.expirationTime) : Date.now() + 48 * 60 * 60 * 1000;
+  return { uri: file.uri, expiresAt };
+}
+
+/* ── File references ───────────────────────────────────────────────── */
+
+/**
+ * Turns a `file_id` content part into a Gemini part: a File API
+ * reference when the auth mode supports one, otherwise inline data.
+ * Uploads are reused until an hour before Gemini expires them, and a
+ * failed upload falls back to inline data.
+ *
+ * @throws FileReferenceError if the file is missing, of a type Gemini
+ *   can't read, or too large to send inline
+ */
+export async function resolveFilePart(id: string, context?: RequestContext): Promise<GeminiPart> {
+  const stored = await loadFile(id, context?.key);
+  if (!stored) throw new FileReferenceError(`No such file: ${id}`, 'file_not_found');
+  if (!isSupportedMimeType(stored.mimeType)) {
+    throw new FileReferenceError(
+      `File ${id} has type ${stored.mimeType}, which can't be sent to Gemini`,
+      'unsupported_mime_type',
+    );
+  }
+
+  const apiKey = GEMINI_FILE_API ? getGeminiApiKey() : undefined;
+  if (apiKey && stored.gemini && stored.gemini.expiresAt > Date.now() + 60 * 60 * 1000) {
+    return { fileData: { mimeType: stored.mimeType, fileUri: stored.gemini.uri } };
+  }
+
+  const data = await fs.readFile(contentPath(id));
+  if (apiKey) {
+    try {
+      stored.gemini = await uploadToGemini(stored, data, apiKey, context?.signal);
+      await fileStore.put(id, stored);
+      return { fileData: { mimeType: stored.mimeType, fileUri: stored.gemini.uri } };
+    } catch (err: unknown) {
+      if (context?.signal?.aborted) throw err;
+      console.warn(`Sending ${id} inline; Gemini File API upload failed:`, err);
+    }
+  }
+
+  if (data.length > MAX_INLINE_BYTES) {
+    throw new FileReferenceError(
+      `File ${id} exceeds the ${MAX_INLINE_BYTES} byte limit for inline data`,
+      'file_too_large',
+    );
+  }
+  return { inlineData: { mimeType: stored.mimeType, data: data.toString('base64') } };
+}
+
+/* ── Handlers ──────────────────────────────────────────────────────── */
+
+function sendNotFound(res: http.ServerResponse, id: string) {
+  sendError(res, 404, createError(`No such File object: ${id}`, 'invalid_request_error', 'not_found'));
+}
+
+function sendStoreError(res: http.ServerResponse, err: unknown) {
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  console.error('HTTP 500 Store error ➜', err);
+  sendError(res, 500, createError(message, 'api_error'));
+}
+
+/**
+ * Handles POST /v1/files: a multipart form with `file`, `purpose` and
+ * optionally `expires_after[anchor]` and `expires_after[seconds]`.
+ */
+export async function handleCreateFile(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  let body: Buffer;
+  try {
+    body = await readBody(req, FILES_MAX_BYTES + MULTIPART_OVERHEAD_BYTES);
+  } catch (err: unknown) {
+    if (err instanceof PayloadTooLargeError) {
+      console.log('HTTP 413: upload too large');
+      // Don't wait on the rest of the upload once the error is sent
+      res.setHeader('Connection', 'close');
+      sendError(res, 413, createError(
+        `File exceeds the ${FILES_MAX_BYTES} byte limit`,
+        'invalid_request_error',
+        'file_too_large',
+      ));
+      return;
+    }
+    console.log('HTTP 400: upload interrupted');
+    sendError(res, 400, createError('Could not read the request body', 'invalid_request_error'));
+    return;
+  }
+
+  const parts = parseMultipart(body, req.headers['content-type']);
+  if (!parts) {
+    sendError(res, 400, createError('Request must be multipart/form-data', 'invalid_request_error', 'invalid_type'));
+    return;
+  }
+  const field = (name: string) => parts.find((p) => p.name === name);
+  const fieldText = (name: string) => field(name)?.data.toString('utf8').trim();
+
+  const upload = field('file');
+  if (!upload || upload.filename === undefined) {
+    sendError(res, 400, createError('file is required', 'invalid_request_error', 'missing_required_parameter'));
+    return;
+  }
+  if (upload.data.length > FILES_MAX_BYTES) {
+    sendError(res, 413, createError(
+      `File exceeds the ${FILES_MAX_BYTES} byte limit`,
+      'invalid_request_error',
+      'file_too_large',
+    ));
+    return;
+  }
+
+  const purpose = fieldText('purpose');
+  if (!purpose) {
+    sendError(res, 400, createError('purpose is required', 'invalid_request_error', 'missing_required_parameter'));
+    return;
+  }
+  if (!PURPOSES.includes(purpose as OpenAIFilePurpose)) {
+    sendError(res, 400, createError(
+      `purpose must be one of: ${PURPOSES.join(', ')}`,
+      'invalid_request_error',
+      'invalid_value',
+    ));
+    return;
+  }
+
+  // Expiry is anchored to the upload time, as in the OpenAI API
+  const anchor = fieldText('expires_after[anchor]');
+  const seconds = fieldText('expires_after[seconds]');
+  if ((anchor !== undefined && anchor !== 'created_at')
+    || (seconds !== undefined && !/^\d+$/.test(seconds))) {
+    sendError(res, 400, createError(
+      'expires_after must have anchor "created_at" and a whole number of seconds',
+      'invalid_request_error',
+      'invalid_value',
+    ));
+    return;
+  }
+
+  const owner = context.key?.name;
+  try {
+    if (FILES_QUOTA_BYTES > 0) {
+      const used = (await sweepExpired())
+        .filter((f) => f.owner === owner)
+        .reduce((total, f) => total + f.file.bytes, 0);
+      if (used + upload.data.length > FILES_QUOTA_BYTES) {
+        console.log('HTTP 400: file storage quota exceeded');
+        sendError(res, 400, createError(
+          `Uploading this file would exceed the ${FILES_QUOTA_BYTES} byte storage quota (${used} bytes in use)`,
+          'invalid_request_error',
+          'quota_exceeded',
+        ));
+        return;
+      }
+    }
+
+    const file = await storeFile(upload.data, {
+      filename: upload.filename,
+      purpose: purpose as OpenAIFilePurpose,
+      mimeType: upload.contentType !== 'application/octet-stream' ? upload.contentType : undefined,
+      key: context.key,
+      ttlSeconds: seconds !== undefined ? Number(seconds) : undefined,
+    });
+    sendJSON(res, 200, file);
+    console.log(`✅ Stored ${file.id} (${file.bytes} bytes)`);
+  } catch (err: unknown) {
+    sendStoreError(res, err);
+  }
+}
+
+/**
+ * Handles GET /v1/files/{id}.
+ */
+export async function handleGetFile(res: http.ServerResponse, id: string, key: ApiKey | undefined) {
+  try {
+    const stored = await loadFile(id, key);
+    if (!stored) {
+      sendNotFound(res, id);
+      return;
+    }
+    sendJSON(res, 200, stored.file);
+  } catch (err: unknown) {
+    sendStoreError(res, err);
+  }
+}
+
+/**
+ * Handles DELETE /v1/files/{id}.
+ */
+export async function handleDeleteFile(res: http.ServerResponse, id: string, key: ApiKey | undefined) {
+  try {
+    if (!await loadFile(id, key) || !await removeFile(id)) {
+      sendNotFound(res, id);
+      return;
+    }
+    sendJSON(res, 200, { id, object: 'file', deleted: true });
+  } catch (err: unknown) {
+    sendStoreError(res, err);
+  }
+}
+
+/**
+ * Handles GET /v1/files/{id}/content, returning the bytes as uploaded.
+ */
+export async function handleGetFileContent(res: http.ServerResponse, id: string, key: ApiKey | undefined) {
+  try {
+    const content = await readStoredFile(id, key);
+    if (!content) {
+      sendNotFound(res, id);
+      return;
+    }
+    // Uploads are served as opaque downloads, never rendered on the API's origin
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': content.data.length,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(content.file.filename)}`,
+      'X-Content-Type-Options': 'nosniff',
+    });
+    res.end(content.data);
+  } catch (err: unknown) {
+    sendStoreError(res, err);
+  }
+}
@@ -0,0 +1,136 @@
+/* ------------------------------------------------------------------ */
+/*  http.ts – Request body parsing and response helpers                */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import type { OpenAIErrorResponse } from './types';
+
+/* ── JSON body helper ─────────────────────────────────────────────── */
+export function readJSON(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (c) => (data += c));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        reject(new Error('Invalid JSON in request body'));
+      }
+    });
+  });
+}
+
+/* ── Raw body helpers ─────────────────────────────────────────────── */
+/**
+ * Thrown when a request body is larger than the endpoint accepts.
+ */
+export class PayloadTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`Request body exceeds the ${limit} byte limit`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Reads a request body as bytes, rejecting once it passes `limit` bytes.
+ * The rest of an oversized body is read and discarded, so the socket
+ * stays open for the error response; send it with `Connection: close`.
+ */
+export function readBody(req: http.IncomingMessage, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (c: Buffer) => {
+      if (size > limit) return;
+      size += c.length;
+      if (size > limit) {
+        chunks.length = 0;
+        reject(new PayloadTooLargeError(limit));
+        return;
+      }
+      chunks.push(c);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * One part of a multipart/form-data body.
+ */
+export interface MultipartPart {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  data: Buffer;
+}
+
+/**
+ * Splits a multipart/form-data body into its parts. Returns null when
+ * the content type isn't multipart or has no boundary.
+ */
+export function parseMultipart(body: Buffer, contentType: string | undefined): MultipartPart[] | null {
+  const boundary = contentType?.match(/^multipart\/form-data;.*boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  if (!boundary) return null;
+
+  const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`);
+  const parts: MultipartPart[] = [];
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    start += delimiter.length;
+    // The closing delimiter is followed by "--"
+    if (body.subarray(start, start + 2).toString() === '--') break;
+    const next = body.indexOf(delimiter, start);
+    if (next === -1) break;
+
+    // Each part is CRLF, headers, a blank line, then data up to CRLF
+    const part = body.subarray(start + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const disposition = headers.match(/^content-disposition:(.*)$/im)?.[1] ?? '';
+      const name = disposition.match(/\bname="([^"]*)"/i)?.[1];
+      if (name !== undefined) {
+        parts.push({
+          name,
+          filename: disposition.match(/\bfilename="([^"]*)"/i)?.[1],
+          contentType: headers.match(/^content-type:\s*(.+)$/im)?.[1].trim(),
+          data: part.subarray(headerEnd + 4),
+        });
+      }
+    }
+    start = next;
+  }
+  return parts;
+}
+
+/* ── JSON response helper ─────────────────────────────────────────── */
+export function sendJSON(
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/* ── Error response helper ────────────────────────────────────────── */
+export function sendError(
+  res: http.ServerResponse,
+  statusCode: number,
+  error: OpenAIErrorResponse,
+) {
+  sendJSON(res, statusCode, error);
+}
+
+/* ── Stream error helper ──────────────────────────────────────────── */
+/**
+ * Reports an error on an event stream whose status has already been
+ * sent, then closes the stream.
+ */
+export function sendStreamError(
+  res: http.ServerResponse,
+  error: OpenAIErrorResponse,
+) {
+  res.end(`event: error\ndata: ${JSON.stringify(error)}\n\n`);
+}
@@ -0,0 +1,226 @@
+/* ------------------------------------------------------------------ */
+/*  limiter.ts – Concurrency caps and a fair queue for Gemini calls    */
+/* ------------------------------------------------------------------ */
+import { QueueRejectedError } from './errors';
+import type { ApiKey, RequestContext, RequestPriority } from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+function parseLimit(value: unknown, where: string): number {
+  if (!Number.isInteger(value) || (value as number) <= 0) {
+    throw new Error(`${where} must be a positive integer`);
+  }
+  return value as number;
+}
+
+// Gemini calls in flight at once across all models; unset for no cap
+const GLOBAL_LIMIT = process.env.CONCURRENCY_LIMIT
+  ? parseLimit(Number(process.env.CONCURRENCY_LIMIT), 'CONCURRENCY_LIMIT')
+  : undefined;
+
+// Gemini calls in flight at once per model, e.g. {"gemini-2.5-pro": 2}
+const MODEL_LIMITS: Record<string, number> = Object.fromEntries(
+  Object.entries(JSON.parse(process.env.CONCURRENCY_LIMIT_MODELS ?? '{}') as Record<string, unknown>)
+    .map(([model, limit]) => [model, parseLimit(limit, `CONCURRENCY_LIMIT_MODELS.${model}`)]),
+);
+
+// Calls that may wait for a slot; beyond this they're refused with a 429
+const QUEUE_MAX_DEPTH = Number(process.env.QUEUE_MAX_DEPTH ?? 100);
+
+// Longest a call waits for a slot before it's refused with a 503; 0 for no limit
+const QUEUE_TIMEOUT_MS = Number(process.env.QUEUE_TIMEOUT_MS ?? 60_000);
+
+// Highest class first
+export const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+/* ── State ─────────────────────────────────────────────────────────── */
+
+/**
+ * A call waiting for a slot. `client` is the API key name, used to
+ * share slots fairly between clients of the same priority.
+ */
+interface Waiter {
+  model: string;
+  client: string;
+  priority: number;
+  seq: number;
+  admit: () => void;
+}
+
+const waiting: Waiter[] = [];
+const activeByModel = new Map<string, number>();
+const activeByClient = new Map<string, number>();
+let activeTotal = 0;
+let nextSeq = 0;
+
+// Running totals for /metrics
+const totals = {
+  admitted: 0,
+  queued: 0,
+  rejectedFull: 0,
+  rejectedTimeout: 0,
+  waitMs: 0,
+};
+
+function bump(map: Map<string, number>, key: string, by: number) {
+  const count = (map.get(key) ?? 0) + by;
+  if (count > 0) {
+    map.set(key, count);
+  } else {
+    map.delete(key);
+  }
+}
+
+function hasRoom(model: string): boolean {
+  return (GLOBAL_LIMIT === undefined || activeTotal < GLOBAL_LIMIT)
+    && (MODEL_LIMITS[model] === undefined || (activeByModel.get(model) ?? 0) < MODEL_LIMITS[model]);
+}
+
+/**
+ * Takes a slot and returns the function that gives it back.
+ */
+function occupy(model: string, client: string): () => void {
+  activeTotal++;
+  bump(activeByModel, model, 1);
+  bump(activeByClient, client, 1);
+  totals.admitted++;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    activeTotal--;
+    bump(activeByModel, model, -1);
+    bump(activeByClient, client, -1);
+    admitWaiting();
+  };
+}
+
+/**
+ * Admits waiting calls while there is room. The highest priority class
+ * goes first; within a class the client with the fewest calls in flight
+ * does, so one client's burst can't starve the others; ties are FIFO.
+ */
+function admitWaiting() {
+  for (;;) {
+    const next = waiting
+      .filter((w) => hasRoom(w.model))
+      .sort((a, b) => a.priority - b.priority
+        || (activeByClient.get(a.client) ?? 0) - (activeByClient.get(b.client) ?? 0)
+        || a.seq - b.seq)[0];
+    if (!next) return;
+    waiting.splice(waiting.indexOf(next), 1);
+    next.admit();
+  }
+}
+
+/* ── Slots ─────────────────────────────────────────────────────────── */
+
+/**
+ * Picks a request's priority: the class asked for in the
+ * x-bridge-priority header, but never above the key's own class.
+ * Unknown header values are ignored.
+ */
+export function resolvePriority(key: ApiKey | undefined, requested: string | undefined): RequestPriority {
+  const ceiling = key?.priority ?? 'high';
+  const asked = PRIORITIES.find((p) => p === requested?.trim().toLowerCase()) ?? key?.priority ?? 'normal';
+  return PRIORITIES.indexOf(asked) < PRIORITIES.indexOf(ceiling) ? ceiling : asked;
+}
+
+/**
+ * Waits for a slot to call a model and returns the function that
+ * releases it. Reports the queue position and wait through
+ * `context.onQueued`; an aborted context leaves the queue.
+ *
+ * @throws QueueRejectedError if the queue is full or the wait times out
+ */
+export function acquireSlot(model: string, context?: RequestContext): Promise<() => void> {
+  const client = context?.key?.name ?? 'anonymous';
+  if (context?.signal?.aborted) return Promise.reject(context.signal.reason);
+  if (hasRoom(model)) {
+    context?.onQueued?.(0, 0);
+    return Promise.resolve(occupy(model, client));
+  }
+
+  if (waiting.length >= QUEUE_MAX_DEPTH) {
+    totals.rejectedFull++;
+    return Promise.reject(new QueueRejectedError(
+      `Server is busy: ${waiting.length} requests are already queued. Try again shortly.`,
+      'queue_full',
+    ));
+  }
+
+  const priority = PRIORITIES.indexOf(context?.priority ?? 'normal');
+  const position = waiting.filter((w) => w.priority <= priority).length + 1;
+  const enqueuedAt = Date.now();
+  const signal = context?.signal;
+  totals.queued++;
+
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    const leave = (err: unknown) => {
+      const index = waiting.indexOf(waiter);
+      if (index !== -1) waiting.splice(index, 1);
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      reject(err);
+    };
+    const onAbort = () => leave(signal?.reason);
+
+    const waiter: Waiter = {
+      model,
+      client,
+      priority,
+      seq: nextSeq++,
+      admit: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const waitMs = Date.now() - enqueuedAt;
+        totals.waitMs += waitMs;
+        context?.onQueued?.(position, waitMs);
+        resolve(occupy(model, client));
+      },
+    };
+
+    if (QUEUE_TIMEOUT_MS > 0) {
+      timer = setTimeout(() => {
+        totals.rejectedTimeout++;
+        leave(new QueueRejectedError(
+          `Server is busy: no ${model} slot freed up within ${QUEUE_TIMEOUT_MS}ms. Try again shortly.`,
+          'queue_timeout',
+        ));
+      }, QUEUE_TIMEOUT_MS);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting.push(waiter);
+  });
+}
+
+/* ── Metrics ───────────────────────────────────────────────────────── */
+
+/**
+ * Renders the queue's gauges and counters in the Prometheus text format.
+ */
+export function formatQueueMetrics(): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: Array<[string, number]>) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) lines.push(`${name}${labels} ${value}`);
+  };
+  const byModel = (counts: Map<string, number>): Array<[string, number]> => Array.from(counts)
+    .map(([model, count]) => [`{model="${model}"}`, count]);
+
+  const waitingByModel = new Map<string, number>();
+  for (const w of waiting) bump(waitingByModel, w.model, 1);
+
+  metric('bridge_requests_active', 'gauge', 'Gemini calls in flight.', [['', activeTotal], ...byModel(activeByModel)]);
+  metric('bridge_queue_depth', 'gauge', 'Gemini calls waiting for a slot.', [['', waiting.length], ...byModel(waitingByModel)]);
+  metric('bridge_queue_admitted_total', 'counter', 'Gemini calls given a slot.', [['', totals.admitted]]);
+  metric('bridge_queue_waited_total', 'counter', 'Gemini calls that had to wait for a slot.', [['', totals.queued]]);
+  metric('bridge_queue_rejected_total', 'counter', 'Gemini calls refused a slot.', [
+    ['{reason="queue_full"}', totals.rejectedFull],
+    ['{reason="queue_timeout"}', totals.rejectedTimeout],
+  ]);
+  metric('bridge_queue_wait_seconds_total', 'counter', 'Time admitted calls spent waiting.', [['', totals.waitMs / 1000]]);
+  return `${lines.join('\n')}\n`;
+}
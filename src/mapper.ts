@@ -1,54 +1,127 @@
 /* ------------------------------------------------------------------ */
 /*  mapper.ts – OpenAI ⇆ Gemini (with reasoning/1 M context)           */
 /* ------------------------------------------------------------------ */
+import { randomUUID } from 'crypto';
 import { fetchAndEncode } from './remoteimage';
-import { z } from 'zod';
-import { ToolRegistry } from '@google/gemini-cli-core/dist/src/tools/tool-registry.js';
+import { toInlineData, isAttachmentProblem } from './attachments';
+import { resolveFilePart } from './files';
 import { getModel } from './chatwrapper';
+import { collectFunctions, findBuiltInTools, requestedBuiltInTools, toGeminiTool } from './builtintools';
+import { toGeminiSchema } from './schema';
+import { createError } from './validation';
 import type {
+  OpenAIAnnotation,
   OpenAIChatRequest,
+  OpenAICodeExecutionItem,
   OpenAIContentItem,
   OpenAIFunction,
+  OpenAIMessage,
+  OpenAIToolCall,
+  OpenAIToolChoice,
   OpenAIChatResponse,
-  OpenAIErrorResponse,
+  OpenAIChoice,
+  OpenAILogprobs,
   OpenAIStreamChunk,
   GeminiPart,
+  GeminiCandidate,
   GeminiContent,
+  GeminiLogprobsResult,
+  GeminiFunctionCall,
+  GeminiFunctionDeclaration,
+  GeminiGroundingMetadata,
   GeminiRequest,
   GeminiResponse,
   GeminiStreamChunk,
+  GeminiTool,
+  GeminiToolConfig,
+  GeminiUsageMetadata,
+  MappedError,
   MappedRequest,
+  OpenAIUsage,
+  ReasoningOutput,
+  RequestContext,
+  ResponseOptions,
 } from './types';
 
 /* ------------------------------------------------------------------ */
 
 /**
- * Tool names that map to Gemini's built-in Google Search grounding.
- * When these are requested, we enable grounding on the generation config
- * instead of registering them as function call tools.
+ * Default reasoning output mode, overridable per request with
+ * `reasoning_output`. Inline `<think>` tags keep SillyTavern working.
  */
-const GOOGLE_SEARCH_TOOL_NAMES = new Set([
-  'web_search',
-  'google_search',
-  'google_web_search',
-  'search',
-  'internet_search',
-]);
+const REASONING_OUTPUT = (process.env.REASONING_OUTPUT ?? 'inline') as ReasoningOutput;
 
 /**
- * Checks if any of the requested functions are Google Search tools.
- * Returns the names of built-in tools found (to filter from custom registration).
+ * Whether Google Search sources are also appended to the answer as a
+ * markdown list, for clients that don't render `annotations`.
+ * Overridable per request with `citation_footnotes`.
  */
-function findBuiltInTools(functions: OpenAIFunction[] | undefined): Set<string> {
-  const builtIn = new Set<string>();
-  if (!functions) return builtIn;
+const CITATION_FOOTNOTES = process.env.CITATION_FOOTNOTES === 'true';
 
-  for (const fn of functions) {
-    if (GOOGLE_SEARCH_TOOL_NAMES.has(fn.name.toLowerCase())) {
-      builtIn.add(fn.name);
-    }
-  }
-  return builtIn;
+/**
+ * Gemini thinking budgets (tokens) for OpenAI `reasoning_effort` levels.
+ */
+const REASONING_EFFORT_BUDGETS: Record<string, number> = {
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+/**
+ * Converts an OpenAI function definition into a Gemini declaration,
+ * translating its JSON Schema parameters into Gemini's schema subset.
+ * Schemas were checked for Gemini compatibility during validation.
+ */
+function toFunctionDeclaration(fn: OpenAIFunction): GeminiFunctionDeclaration {
+  const parameters = fn.parameters ? toGeminiSchema(fn.parameters) : undefined;
+
+  // Gemini rejects OBJECT parameters without properties, so
+  // argument-less functions are declared without parameters
+  const properties = parameters?.properties as Record<string, unknown> | undefined;
+  const hasProperties = properties !== undefined && Object.keys(properties).length > 0;
+
+  return {
+    name: fn.name,
+    description: fn.description,
+    parameters: hasProperties ? parameters : undefined,
+  };
+}
+
+/**
+ * Maps OpenAI `tool_choice` to Gemini's function calling config.
+ * Returns undefined when the Gemini default (AUTO) is appropriate.
+ */
+function mapToolChoice(choice: OpenAIToolChoice | undefined): GeminiToolConfig | undefined {
+  if (choice === undefined || choice === 'auto') return undefined;
+  if (choice === 'none') return { functionCallingConfig: { mode: 'NONE' } };
+  if (choice === 'required') return { functionCallingConfig: { mode: 'ANY' } };
+  return {
+    functionCallingConfig: {
+      mode: 'ANY',
+      allowedFunctionNames: [choice.function.name],
+    },
+  };
+}
+
+/**
+ * Generates an OpenAI-style tool call id for calls Gemini didn't label.
+ */
+function newToolCallId(): string {
+  return `call_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+/**
+ * Converts a Gemini function call into an OpenAI tool call.
+ */
+function toToolCall(call: GeminiFunctionCall): OpenAIToolCall {
+  return {
+    id: call.id ?? newToolCallId(),
+    type: 'function',
+    function: {
+      name: call.name,
+      arguments: JSON.stringify(call.args ?? {}),
+    },
+  };
 }
 
 /* ================================================================== */
@@ -82,7 +155,8 @@ function parseDataUrl(url: string): { mimeType: string; data: string } | null {
 
 // Convert a single message's content to Gemini parts
 async function contentToParts(
-  content: string | OpenAIContentItem[],
+  content: string | OpenAIContentItem[] | null,
+  context?: RequestContext,
 ): Promise<GeminiPart[]> {
   const parts: GeminiPart[] = [];
   if (Array.isArray(content)) {
@@ -96,10 +170,18 @@ async function contentToParts(
           parts.push({ inlineData: dataUrlParts });
         } else {
           // Regular HTTP(S) URL - fetch and encode
-          parts.push({ inlineData: await fetchAndEncode(url) });
+          parts.push({ inlineData: await fetchAndEncode(url, context?.signal) });
         }
       } else if (item.type === 'text' && item.text) {
         parts.push({ text: item.text });
+      } else if (item.type === 'file' && typeof item.file?.file_id === 'string') {
+        parts.push(await resolveFilePart(item.file.file_id, context));
+      } else {
+        // Audio and documents; their type and size were checked during validation
+        const inline = toInlineData(item);
+        if (inline && !isAttachmentProblem(inline)) {
+          parts.push({ inlineData: inline });
+        }
       }
     }
   } else if (typeof content === 'string') {
@@ -108,62 +190,186 @@ async function contentToParts(
   return parts;
 }
 
-export async function mapRequest(body: OpenAIChatRequest): Promise<MappedRequest> {
+/**
+ * Extracts the plain text of a message, joining text items of structured
+ * content. Used for system and tool messages, which Gemini takes as text.
+ */
+function messageText(content: OpenAIMessage['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((c) => c.type === 'text' && c.text)
+    .map((c) => c.text)
+    .join('\n');
+}
+
+/**
+ * Parses tool call arguments, which OpenAI sends as a JSON string.
+ * Malformed arguments are passed through under `raw` rather than dropped.
+ */
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+    return { value: parsed };
+  } catch {
+    console.warn('Tool call arguments are not valid JSON, passing through raw');
+    return { raw: args };
+  }
+}
+
+/**
+ * Wraps a tool result as a Gemini function response payload.
+ * Gemini requires an object; JSON object results are used as-is,
+ * anything else goes under `output`.
+ */
+function toFunctionResponse(text: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+    return { output: parsed };
+  } catch {
+    return { output: text };
+  }
+}
+
+/**
+ * Converts an OpenAI chat request to a Gemini request. The context's
+ * key decides which uploaded files may be referenced, and its signal
+ * cancels any remote image fetches or file uploads still in flight.
+ */
+export async function mapRequest(body: OpenAIChatRequest, context?: RequestContext): Promise<MappedRequest> {
   // Separate system messages from conversation messages
   let systemInstruction: string | undefined;
   const contents: GeminiContent[] = [];
 
+  // Tool messages only carry the call id; Gemini wants the function name
+  const toolCallNames = new Map<string, string>();
+  let previousWasTool = false;
+
   for (const m of body.messages) {
     if (m.role === 'system') {
       // Combine system messages into a single instruction.
-      // System content is typically a string; extract text if structured.
-      const text = typeof m.content === 'string'
-        ? m.content
-        : (Array.isArray(m.content)
-          ? m.content.find((c) => c.type === 'text')?.text
-          : '') ?? '';
+      const text = messageText(m.content);
       systemInstruction = systemInstruction ? `${systemInstruction}\n\n${text}` : text;
+      previousWasTool = false;
+    } else if (m.role === 'tool') {
+      const callId = m.tool_call_id ?? '';
+      const part: GeminiPart = {
+        functionResponse: {
+          id: callId || undefined,
+          name: toolCallNames.get(callId) ?? m.name ?? 'unknown',
+          response: toFunctionResponse(messageText(m.content)),
+        },
+      };
+
+      // Consecutive tool results answer one model turn, so they share a content
+      if (previousWasTool) {
+        contents[contents.length - 1].parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+      previousWasTool = true;
     } else {
       // Map OpenAI roles to Gemini roles (user stays user, assistant becomes model)
       const geminiRole = m.role === 'assistant' ? 'model' : 'user';
-      const parts = await contentToParts(m.content);
+      const parts = await contentToParts(m.content, context);
+
+      for (const call of m.tool_calls ?? []) {
+        toolCallNames.set(call.id, call.function.name);
+        parts.push({
+          functionCall: {
+            id: call.id,
+            name: call.function.name,
+            args: parseToolArguments(call.function.arguments),
+          },
+        });
+      }
+
       contents.push({ role: geminiRole, parts });
+      previousWasTool = false;
     }
   }
 
   /* ---- base generationConfig ------------------------------------- */
+  // Ranges and unsupported combinations were rejected during validation
   const generationConfig: Record<string, unknown> = {
     temperature: body.temperature,
-    maxOutputTokens: body.max_tokens,
+    maxOutputTokens: body.max_completion_tokens ?? body.max_tokens,
     topP: body.top_p,
+    topK: body.top_k,
+    stopSequences: typeof body.stop === 'string' ? [body.stop] : body.stop ?? undefined,
+    presencePenalty: body.presence_penalty,
+    frequencyPenalty: body.frequency_penalty,
+    seed: body.seed,
+    candidateCount: body.n,
+    responseLogprobs: body.logprobs,
+    logprobs: body.logprobs ? body.top_logprobs : undefined,
     ...(body.generationConfig ?? {}), // copy anything ST already merged
   };
 
+  // Gemini has no end-user field; log it so abuse can still be traced
+  if (body.user) {
+    console.log('Request from user:', body.user);
+  }
+
+  /* ---- structured output ----------------------------------------- */
+  // json_object only forces JSON; json_schema also constrains its shape.
+  // Schemas were checked for Gemini compatibility during validation.
+  const format = body.response_format;
+  if (format?.type === 'json_object' || format?.type === 'json_schema') {
+    generationConfig.responseMimeType = 'application/json';
+  }
+  if (format?.type === 'json_schema' && format.json_schema.schema) {
+    generationConfig.responseSchema = toGeminiSchema(format.json_schema.schema);
+  }
+
   /* ---- reasoning configuration ----------------------------------- */
-  // Gemini supports two flags for reasoning/thinking:
-  // - `thinking`: Primary flag for enabling thinking mode (Gemini 2.x)
-  // - `enable_thoughts`: Alternative flag (may be used in older versions)
-  // We set both for maximum compatibility, with a shared budget.
-  if (body.include_reasoning === true) {
-    generationConfig.thinking = true;
-    generationConfig.enable_thoughts = true;
-    generationConfig.thinking_budget ??= 2048;
+  // reasoning_effort sets the thinking budget; thoughts are only requested
+  // when the client asked for reasoning and will actually see it.
+  const reasoningOutput = body.reasoning_output ?? REASONING_OUTPUT;
+  const thinkingConfig: Record<string, unknown> = {
+    ...(generationConfig.thinkingConfig as Record<string, unknown> | undefined),
+  };
+
+  if (body.reasoning_effort) {
+    thinkingConfig.thinkingBudget = REASONING_EFFORT_BUDGETS[body.reasoning_effort];
+  }
+  if (body.include_reasoning !== undefined || body.reasoning_effort) {
+    thinkingConfig.includeThoughts = body.include_reasoning !== false && reasoningOutput !== 'hidden';
+  }
+  if (Object.keys(thinkingConfig).length > 0) {
+    generationConfig.thinkingConfig = thinkingConfig;
   }
 
   /* ---- context limit --------------------------------------------- */
   generationConfig.maxInputTokens ??= 1_000_000; // lift to 1M token context
 
   /* ---- Tool / function mapping ----------------------------------- */
-  // Check for built-in tools that should be mapped to Gemini grounding
-  const builtInTools = findBuiltInTools(body.functions);
-  const hasGoogleSearch = builtInTools.size > 0;
-
-  // Build the Gemini tools array
-  // If Google Search is requested, add the googleSearch grounding tool
-  const geminiTools: unknown[] = [];
-  if (hasGoogleSearch) {
-    geminiTools.push({ googleSearch: {} });
-    console.log('Enabled Google Search grounding for tools:', Array.from(builtInTools));
+  const functions = collectFunctions(body);
+
+  // Functions named after a Gemini built-in (e.g. web_search) turn it on
+  const builtInTools = findBuiltInTools(functions);
+
+  // Build the Gemini tools array, built-ins first
+  const geminiTools: GeminiTool[] = [];
+  for (const tool of requestedBuiltInTools(body)) {
+    geminiTools.push(toGeminiTool(tool));
+  }
+  if (geminiTools.length > 0) {
+    console.log('Enabled Gemini built-in tools:', geminiTools.map((t) => Object.keys(t)[0]));
+  }
+
+  // Everything else is declared to Gemini as a callable function
+  const customFunctions = functions.filter((fn) => !builtInTools.has(fn.name));
+  if (customFunctions.length > 0) {
+    geminiTools.push({
+      functionDeclarations: customFunctions.map(toFunctionDeclaration),
+    });
   }
 
   const geminiReq: GeminiRequest = {
@@ -173,81 +379,308 @@ export async function mapRequest(body: OpenAIChatRequest): Promise<MappedRequest
     stream: body.stream,
     systemInstruction,
     tools: geminiTools.length > 0 ? geminiTools : undefined,
+    toolConfig: customFunctions.length > 0 ? mapToolChoice(body.tool_choice) : undefined,
   };
 
   console.log('Gemini request:', geminiReq);
 
-  // ToolRegistry for any custom (non-built-in) function definitions
-  // Cast required: gemini-cli types are unstable between versions.
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const tools = new ToolRegistry({} as any);
-
-  if (body.functions?.length) {
-    // Filter out built-in tools - they're handled via Gemini grounding
-    const customFunctions = body.functions.filter(fn => !builtInTools.has(fn.name));
-
-    if (customFunctions.length > 0) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const reg = tools as any;
-      customFunctions.forEach((fn: OpenAIFunction) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const schema = z.object((fn.parameters?.properties ?? {}) as any);
-        reg.registerTool(
-          fn.name,
-          {
-            title: fn.name,
-            description: fn.description ?? '',
-            inputSchema: schema,
-          },
-          // Stub handler - custom function execution not supported
-          async () => ({ error: 'Custom function execution not supported by proxy' }),
-        );
-      });
-    }
-  }
-
-  return { geminiReq, tools };
+  return {
+    geminiReq,
+    responseOptions: {
+      parallelToolCalls: body.parallel_tool_calls !== false,
+      reasoningOutput,
+      citationFootnotes: body.citation_footnotes ?? CITATION_FOOTNOTES,
+    },
+  };
 }
 
 /* ================================================================== */
 /* Non-stream response: Gemini ➞ OpenAI                                */
 /* ================================================================== */
-export function mapResponse(
-  gResp: GeminiResponse,
-): OpenAIChatResponse | OpenAIErrorResponse {
-  const usage = gResp.usageMetadata ?? {};
-  const hasError = typeof gResp.candidates === 'undefined';
 
-  console.log('Received response:', gResp);
+/**
+ * Maps Gemini usage metadata to OpenAI usage. Gemini counts thoughts
+ * separately from candidates; OpenAI includes reasoning tokens in
+ * `completion_tokens` and breaks them out in the details.
+ */
+function mapUsage(usage: GeminiUsageMetadata): OpenAIUsage {
+  // Gemini uses *TokenCount naming convention
+  const reasoningTokens = usage.thoughtsTokenCount ?? 0;
+  return {
+    prompt_tokens: usage.promptTokenCount ?? usage.promptTokens ?? 0,
+    completion_tokens: (usage.candidatesTokenCount ?? usage.candidatesTokens ?? 0) + reasoningTokens,
+    total_tokens: usage.totalTokenCount ?? usage.totalTokens ?? 0,
+    completion_tokens_details: { reasoning_tokens: reasoningTokens },
+  };
+}
 
-  if (hasError) {
+/**
+ * Gemini finish reasons that mean the output was withheld or cut short
+ * by a safety, recitation or policy filter.
+ */
+const CONTENT_FILTER_REASONS = new Set([
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'LANGUAGE',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
+
+/**
+ * Maps a Gemini `finishReason` to an OpenAI `finish_reason`.
+ * Clients rely on this to tell truncation (`length`) from refusals
+ * (`content_filter`). `tool_calls` is only reported when there are
+ * calls to run; a malformed or unexpected call, and any other reason,
+ * maps to `stop`.
+ */
+export function mapFinishReason(reason: string | undefined, hasToolCalls: boolean): string {
+  if (hasToolCalls) return 'tool_calls';
+  if (reason === 'MAX_TOKENS') return 'length';
+  if (reason && CONTENT_FILTER_REASONS.has(reason)) return 'content_filter';
+  return 'stop';
+}
+
+/**
+ * Checks a non-stream Gemini response for a blocked prompt or missing
+ * candidates, which have no OpenAI chat completion equivalent.
+ * Returns the HTTP status and error to send, or null if the response
+ * can be mapped.
+ */
+export function mapResponseError(gResp: GeminiResponse): MappedError | null {
+  const blockReason = gResp.promptFeedback?.blockReason;
+  if (blockReason) {
+    console.error('Prompt blocked by Gemini:', blockReason);
+    const detail = gResp.promptFeedback?.blockReasonMessage;
+    return {
+      status: 400,
+      error: createError(
+        `Prompt was blocked by Gemini (${blockReason})${detail ? `: ${detail}` : ''}`,
+        'invalid_request_error',
+        'content_filter',
+      ),
+    };
+  }
+
+  if (!gResp.candidates?.length) {
     console.error('No candidates returned.');
+    return {
+      status: 502,
+      error: createError('Gemini returned no candidates', 'api_error'),
+    };
+  }
+
+  return null;
+}
 
+/**
+ * Renders a code execution part as a fenced code block for the message
+ * content, and as its structured `code_execution` item. Returns null
+ * for other parts.
+ */
+function renderCodePart(part: GeminiPart): { markdown: string; item: OpenAICodeExecutionItem } | null {
+  if (part.executableCode) {
+    const language = (part.executableCode.language ?? 'python').toLowerCase();
+    const code = part.executableCode.code ?? '';
     return {
-      error: {
-        message: gResp?.promptFeedback?.blockReason ?? 'No candidates returned.',
-      },
+      markdown: `\n\`\`\`${language === 'language_unspecified' ? '' : language}\n${code}\n\`\`\`\n`,
+      item: { type: 'executable_code', language, code },
     };
   }
+  if (part.codeExecutionResult) {
+    const outcome = part.codeExecutionResult.outcome ?? 'OUTCOME_OK';
+    const output = part.codeExecutionResult.output ?? '';
+    return {
+      markdown: `\n\`\`\`output\n${output}${output.endsWith('\n') ? '' : '\n'}\`\`\`\n`,
+      item: { type: 'code_execution_result', outcome, output },
+    };
+  }
+  return null;
+}
+
+/**
+ * Converts a UTF-8 byte offset into `text` to a string index.
+ */
+function charIndex(text: string, byteOffset: number): number {
+  return Buffer.from(text, 'utf8').subarray(0, byteOffset).toString('utf8').length;
+}
+
+/**
+ * Maps Gemini grounding supports to OpenAI URL citations. `offset` is
+ * where the answer text starts in the message content, after any inline
+ * thoughts.
+ */
+function mapAnnotations(
+  metadata: GeminiGroundingMetadata | undefined,
+  answer: string,
+  offset: number,
+): OpenAIAnnotation[] {
+  const chunks = metadata?.groundingChunks ?? [];
+  const annotations: OpenAIAnnotation[] = [];
+
+  for (const support of metadata?.groundingSupports ?? []) {
+    const segment = support.segment ?? {};
+    let start = charIndex(answer, segment.startIndex ?? 0);
+    let end = charIndex(answer, segment.endIndex ?? 0);
+
+    // Offsets are per part upstream; find the text when they don't line up
+    if (segment.text && answer.slice(start, end) !== segment.text) {
+      start = answer.indexOf(segment.text);
+      end = start + segment.text.length;
+    }
+    if (start < 0 || end <= start) continue;
+
+    for (const index of support.groundingChunkIndices ?? []) {
+      const web = chunks[index]?.web;
+      if (!web?.uri) continue;
+      annotations.push({
+        type: 'url_citation',
+        url_citation: {
+          start_index: offset + start,
+          end_index: offset + end,
+          url: web.uri,
+          title: web.title ?? web.uri,
+        },
+      });
+    }
+  }
+  return annotations;
+}
+
+/**
+ * Formats the grounding sources as a numbered markdown list to append
+ * to the answer, or '' when there are none.
+ */
+function formatFootnotes(metadata: GeminiGroundingMetadata | undefined): string {
+  const sources = new Map<string, string>();
+  for (const chunk of metadata?.groundingChunks ?? []) {
+    if (chunk.web?.uri) sources.set(chunk.web.uri, chunk.web.title ?? chunk.web.uri);
+  }
+  if (sources.size === 0) return '';
+
+  const list = Array.from(sources, ([uri, title], i) => `${i + 1}. [${title.replace(/[[\]]/g, '\\$&')}](${uri})`);
+  return `\n\nSources:\n${list.join('\n')}`;
+}
+
+/**
+ * Converts Gemini log probabilities into OpenAI's `logprobs.content` shape.
+ */
+function mapLogprobs(result: GeminiLogprobsResult): OpenAILogprobs {
+  const toEntry = (c: { token?: string; logProbability?: number }) => ({
+    token: c.token ?? '',
+    logprob: c.logProbability ?? 0,
+    bytes: Array.from(Buffer.from(c.token ?? '', 'utf8')),
+  });
+
+  return {
+    content: (result.chosenCandidates ?? []).map((chosen, i) => ({
+      ...toEntry(chosen),
+      top_logprobs: (result.topCandidates?.[i]?.candidates ?? []).map(toEntry),
+    })),
+  };
+}
+
+/**
+ * Maps one Gemini candidate to an OpenAI choice.
+ */
+function mapCandidate(
+  candidate: GeminiCandidate,
+  position: number,
+  options: ResponseOptions,
+): OpenAIChoice {
+  // Split the candidate into thoughts, answer text and function calls
+  const parts = candidate.content?.parts ?? [];
+  let reasoning = '';
+  let content = '';
+  let toolCalls: OpenAIToolCall[] = [];
+  const codeExecution: OpenAICodeExecutionItem[] = [];
+
+  for (const part of parts) {
+    const code = renderCodePart(part);
+    if (code) {
+      content += code.markdown;
+      codeExecution.push(code.item);
+    } else if (part.functionCall) {
+      toolCalls.push(toToolCall(part.functionCall));
+    } else if (part.thought === true) {
+      reasoning += part.text ?? '';
+    } else if (typeof part.text === 'string') {
+      content += part.text;
+    }
+  }
+
+  // Gemini has no switch for this, so keep only the first call
+  if (!options.parallelToolCalls && toolCalls.length > 1) {
+    toolCalls = toolCalls.slice(0, 1);
+  }
+
+  const hasToolCalls = toolCalls.length > 0;
+
+  // Place reasoning according to the requested output mode
+  const answer = content;
+  if (reasoning && options.reasoningOutput === 'inline') {
+    content = `<think>${reasoning}</think>${content}`;
+  }
+  const reasoningField = reasoning && options.reasoningOutput === 'separate'
+    ? { reasoning_content: reasoning }
+    : {};
+
+  // Google Search sources, cited over the answer text
+  const grounding = candidate.groundingMetadata;
+  const annotations = mapAnnotations(grounding, answer, content.length - answer.length);
+  if (options.citationFootnotes) {
+    content += formatFootnotes(grounding);
+  }
+  const extraFields = {
+    ...(annotations.length > 0 ? { annotations } : {}),
+    ...(codeExecution.length > 0 ? { code_execution: codeExecution } : {}),
+  };
+
+  return {
+    index: candidate.index ?? position,
+    message: hasToolCalls
+      ? { role: 'assistant', content: content || null, ...reasoningField, tool_calls: toolCalls, ...extraFields }
+      : { role: 'assistant', content, ...reasoningField, ...extraFields },
+    logprobs: candidate.logprobsResult ? mapLogprobs(candidate.logprobsResult) : null,
+    finish_reason: mapFinishReason(candidate.finishReason, hasToolCalls),
+  };
+}
+
+/**
+ * Returns a candidate's answer as the model wrote it, without thoughts,
+ * rendered code execution or source footnotes, or undefined when the
+ * candidate calls functions. This is what structured output is checked
+ * against.
+ */
+export function candidateText(candidate: GeminiCandidate): string | undefined {
+  const parts = candidate.content?.parts ?? [];
+  if (parts.some((p) => p.functionCall)) return undefined;
+  return parts
+    .filter((p) => p.thought !== true && !renderCodePart(p) && typeof p.text === 'string')
+    .map((p) => p.text)
+    .join('');
+}
+
+export function mapResponse(
+  gResp: GeminiResponse,
+  options: ResponseOptions,
+): OpenAIChatResponse {
+  const usage = gResp.usageMetadata ?? {};
+
+  console.log('Received response:', gResp);
+
+  // One choice per candidate (several when the client set `n`)
+  const choices = (gResp.candidates ?? []).map((c, i) => mapCandidate(c, i, options));
 
   return {
     id: `chatcmpl-${Date.now()}`,
     object: 'chat.completion',
     created: Math.floor(Date.now() / 1000),
     model: gResp.modelVersion ?? getModel(),
-    choices: [
-      {
-        index: 0,
-        message: { role: 'assistant', content: gResp.text ?? '' },
-        finish_reason: 'stop',
-      },
-    ],
-    usage: {
-      // Gemini uses *TokenCount naming convention
-      prompt_tokens: usage.promptTokenCount ?? usage.promptTokens ?? 0,
-      completion_tokens: usage.candidatesTokenCount ?? usage.candidatesTokens ?? 0,
-      total_tokens: usage.totalTokenCount ?? usage.totalTokens ?? 0,
-    },
+    choices,
+    usage: mapUsage(usage),
   };
 }
 
@@ -256,92 +689,183 @@ export function mapResponse(
 /* ================================================================== */
 
 /**
- * Stateful stream mapper that tracks thinking state across chunks.
+ * Stateful stream mapper that tracks thinking and tool call state across chunks.
  */
 interface StreamMapper {
-  /** Maps a Gemini chunk to OpenAI format, tracking think tag state. */
-  mapChunk: (chunk: GeminiStreamChunk) => OpenAIStreamChunk;
-  /** Returns true if we're currently inside a think block. */
-  isThinking: () => boolean;
+  /**
+   * Maps a Gemini chunk to OpenAI format, tracking think tag state.
+   * A single Gemini chunk can yield several OpenAI chunks when it
+   * carries function calls.
+   */
+  mapChunk: (chunk: GeminiStreamChunk) => OpenAIStreamChunk[];
+  /** Returns true if any tool call has been streamed. */
+  hasToolCalls: () => boolean;
+  /** Returns the answer text streamed so far, without thoughts. */
+  text: () => string;
+  /**
+   * Returns the closing chunk: closes any open think tag, carries the
+   * grounding annotations and the stream's only non-null `finish_reason`.
+   */
+  finish: () => OpenAIStreamChunk;
 }
 
 /**
  * Creates a stateful stream chunk mapper that tracks thinking state
- * to properly open/close think tags across chunks.
+ * to properly open/close think tags across chunks, and numbers tool
+ * calls so their `index` stays stable for the whole stream.
  */
-export function createStreamMapper(): StreamMapper {
+export function createStreamMapper(options: ResponseOptions): StreamMapper {
   let wasThinking = false;
+  let toolCallCount = 0;
+  let answerText = '';
+  let finishReason: string | undefined;
+
+  // Grounding offsets are only final once the answer is, so citations
+  // go out in the closing chunk. `answerOffset` is where the answer
+  // starts in the streamed content, after any inline thoughts.
+  let grounding: GeminiGroundingMetadata | undefined;
+  let contentLength = 0;
+  let answerOffset: number | undefined;
+
+  /**
+   * Emits a tool call the way OpenAI does: a first delta with the id and
+   * function name and empty arguments, then the arguments JSON which
+   * clients concatenate per `index`.
+   */
+  function toolCallChunks(call: GeminiFunctionCall): OpenAIStreamChunk[] {
+    const index = toolCallCount++;
+    const { id, function: fn } = toToolCall(call);
+
+    return [
+      {
+        choices: [{
+          delta: {
+            tool_calls: [{ index, id, type: 'function', function: { name: fn.name, arguments: '' } }],
+          },
+          index: 0,
+          finish_reason: null,
+        }],
+      },
+      {
+        choices: [{
+          delta: { tool_calls: [{ index, function: { arguments: fn.arguments } }] },
+          index: 0,
+          finish_reason: null,
+        }],
+      },
+    ];
+  }
 
-  function mapChunk(chunk: GeminiStreamChunk): OpenAIStreamChunk {
+  function mapChunk(chunk: GeminiStreamChunk): OpenAIStreamChunk[] {
     const candidate = chunk?.candidates?.[0];
     const parts = candidate?.content?.parts ?? [];
     const usage = chunk?.usageMetadata;
 
+    // Remember why Gemini stopped; reported once, in the closing chunk.
+    // A blocked prompt arrives as promptFeedback with no candidates.
+    finishReason = candidate?.finishReason ?? finishReason;
+    grounding = candidate?.groundingMetadata ?? grounding;
+    if (chunk?.promptFeedback?.blockReason) {
+      console.error('Prompt blocked by Gemini:', chunk.promptFeedback.blockReason);
+      finishReason = 'BLOCKLIST';
+    }
+
     // Combine all text parts from this chunk
     let content = '';
-    let isThinking = false;
+    let reasoning = '';
+    const toolCalls: OpenAIStreamChunk[] = [];
+    const codeExecution: OpenAICodeExecutionItem[] = [];
 
     for (const part of parts) {
       if (part.thought === true) {
-        isThinking = true;
+        if (options.reasoningOutput === 'separate') {
+          reasoning += part.text ?? '';
+          continue;
+        }
+        if (options.reasoningOutput === 'hidden') continue;
+
         // Opening think tag if we weren't thinking before
         if (!wasThinking) {
           content += '<think>';
+          wasThinking = true;
         }
         content += part.text ?? '';
-      } else if (typeof part.text === 'string') {
-        // Close think tag if we were thinking but this part isn't
-        if (wasThinking && !isThinking) {
-          content += '</think>';
+        continue;
+      }
+
+      // Close think tag if we were thinking but this part isn't
+      if (wasThinking) {
+        content += '</think>';
+        wasThinking = false;
+      }
+
+      const code = renderCodePart(part);
+      if (code) {
+        content += code.markdown;
+        codeExecution.push(code.item);
+      } else if (part.functionCall) {
+        if (options.parallelToolCalls || toolCallCount === 0) {
+          toolCalls.push(...toolCallChunks(part.functionCall));
         }
+      } else if (typeof part.text === 'string') {
+        answerOffset ??= contentLength + content.length;
         content += part.text;
+        answerText += part.text;
       }
     }
-
-    // Update state for next chunk
-    wasThinking = isThinking;
+    contentLength += content.length;
 
     const result: OpenAIStreamChunk = {
       choices: [{
         delta: {
           role: 'assistant',
           content: content || undefined,
+          reasoning_content: reasoning || undefined,
+          code_execution: codeExecution.length > 0 ? codeExecution : undefined,
         },
         index: 0,
         finish_reason: null,
       }],
     };
 
+    // Text goes out before any tool calls from the same Gemini chunk;
+    // a chunk with only tool calls doesn't need an empty text delta.
+    const hasText = content || reasoning;
+    const results = hasText || toolCalls.length === 0 ? [result, ...toolCalls] : toolCalls;
+
     // Include usage metadata if present (typically on final chunk)
     if (usage) {
-      result.usage = {
-        prompt_tokens: usage.promptTokenCount ?? usage.promptTokens ?? 0,
-        completion_tokens: usage.candidatesTokenCount ?? usage.candidatesTokens ?? 0,
-        total_tokens: usage.totalTokenCount ?? usage.totalTokens ?? 0,
-      };
+      results[results.length - 1].usage = mapUsage(usage);
     }
 
-    return result;
+    return results;
   }
 
-  return {
-    mapChunk,
-    isThinking: () => wasThinking,
-  };
-}
+  function finish(): OpenAIStreamChunk {
+    let closing = wasThinking ? '</think>' : '';
+    wasThinking = false;
+    if (options.citationFootnotes) {
+      closing += formatFootnotes(grounding);
+    }
 
-/**
- * Creates a final chunk to close any open think tags.
- */
-export function createFinalStreamChunk(wasThinking: boolean): OpenAIStreamChunk | null {
-  if (!wasThinking) return null;
+    const annotations = mapAnnotations(grounding, answerText, answerOffset ?? 0);
+    return {
+      choices: [{
+        delta: {
+          ...(closing ? { content: closing } : {}),
+          ...(annotations.length > 0 ? { annotations } : {}),
+        },
+        index: 0,
+        finish_reason: mapFinishReason(finishReason, toolCallCount > 0),
+      }],
+    };
+  }
 
   return {
-    choices: [{
-      delta: { content: '</think>' },
-      index: 0,
-      finish_reason: 'stop',
-    }],
+    mapChunk,
+    hasToolCalls: () => toolCallCount > 0,
+    text: () => answerText,
+    finish,
   };
 }
 
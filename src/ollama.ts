@@ -0,0 +1,461 @@
+/* ------------------------------------------------------------------ */
+/*  ollama.ts – Ollama-native API front-end (/api/*)                   */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { createHash } from 'crypto';
+import { sendChat, sendChatStream, listModels, resolveModel } from './chatwrapper';
+import { mapRequest, mapResponseError, mapFinishReason } from './mapper';
+import { applyKeyPolicy, isModelAllowed } from './auth';
+import { checkRateLimit } from './ratelimit';
+import { classifyError } from './errors';
+import { readJSON, sendJSON } from './http';
+import { validateChatRequest, validateOllamaRequest } from './validation';
+import type {
+  ApiKey,
+  RequestContext,
+  GeminiPart,
+  GeminiUsageMetadata,
+  OllamaChatRequest,
+  OllamaGenerateRequest,
+  OllamaMessage,
+  OllamaOptions,
+  OllamaToolCall,
+  OpenAIChatRequest,
+  OpenAIContentItem,
+  OpenAIMessage,
+} from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// Ollama version we report; clients gate features on it
+const OLLAMA_VERSION = '0.9.0';
+
+// Context length advertised by /api/show (matches the 1M lift in mapper.ts)
+const CONTEXT_LENGTH = 1_048_576;
+
+// Timestamp used as every model's modified_at
+const STARTED_AT = new Date().toISOString();
+
+/* ================================================================== */
+/* Request mapper: Ollama ➞ OpenAI                                     */
+/* ================================================================== */
+
+/**
+ * Guesses an image MIME type from the start of its base64 data,
+ * since Ollama sends bare base64 without a data URL.
+ */
+function sniffImageType(base64: string): string {
+  if (base64.startsWith('/9j/')) return 'image/jpeg';
+  if (base64.startsWith('iVBORw0KGgo')) return 'image/png';
+  if (base64.startsWith('R0lGOD')) return 'image/gif';
+  if (base64.startsWith('UklGR')) return 'image/webp';
+  return 'image/png';
+}
+
+/**
+ * Builds OpenAI content from text plus Ollama base64 images.
+ */
+function toContent(text: string, images: string[] | undefined): string | OpenAIContentItem[] {
+  if (!images?.length) return text;
+  return [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    ...images.map((data) => ({
+      type: 'image_url' as const,
+      image_url: { url: `data:${sniffImageType(data)};base64,${data}` },
+    })),
+  ];
+}
+
+/**
+ * Maps the parts of an Ollama request shared by /api/chat and
+ * /api/generate: `options`, `format` and `think`.
+ */
+function mapCommon(body: OllamaChatRequest | OllamaGenerateRequest): Partial<OpenAIChatRequest> {
+  const options: OllamaOptions = body.options ?? {};
+  const format = body.format;
+
+  return {
+    model: resolveModel(body.model),
+    stream: body.stream !== false, // Ollama streams by default
+    temperature: options.temperature,
+    // num_predict of -1 (or -2) means "no limit"
+    max_tokens: options.num_predict !== undefined && options.num_predict > 0 ? options.num_predict : undefined,
+    stop: options.stop,
+    top_p: options.top_p,
+    top_k: options.top_k,
+    seed: options.seed,
+    presence_penalty: options.presence_penalty,
+    frequency_penalty: options.frequency_penalty,
+    // num_ctx caps the input context, like the bridge's own 1M lift
+    generationConfig: options.num_ctx ? { maxInputTokens: options.num_ctx } : undefined,
+    response_format: format === 'json'
+      ? { type: 'json_object' }
+      : typeof format === 'object'
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: format } }
+        : undefined,
+    include_reasoning: body.think,
+    reasoning_output: body.think ? 'separate' : 'hidden',
+  };
+}
+
+/**
+ * Converts an Ollama chat request into an OpenAI chat request. Ollama
+ * tool calls have no ids, so ids are assigned here and each tool result
+ * is matched to the oldest unanswered call (by `tool_name` if given).
+ */
+function toChatRequest(body: OllamaChatRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+  const pending: Array<{ id: string; name: string }> = [];
+  let callCount = 0;
+
+  for (const m of body.messages) {
+    if (m.role === 'tool') {
+      const match = pending.findIndex((p) => !m.tool_name || p.name === m.tool_name);
+      const [call] = match >= 0 ? pending.splice(match, 1) : [];
+      messages.push({ role: 'tool', tool_call_id: call?.id, name: m.tool_name, content: m.content ?? '' });
+    } else if (m.role === 'assistant' && m.tool_calls?.length) {
+      const toolCalls = m.tool_calls.map((c) => {
+        const id = `call_${callCount++}`;
+        pending.push({ id, name: c.function.name });
+        return {
+          id,
+          type: 'function' as const,
+          function: { name: c.function.name, arguments: JSON.stringify(c.function.arguments ?? {}) },
+        };
+      });
+      messages.push({ role: 'assistant', content: m.content || null, tool_calls: toolCalls });
+    } else {
+      messages.push({ role: m.role, content: toContent(m.content ?? '', m.images) });
+    }
+  }
+
+  return {
+    ...mapCommon(body),
+    messages,
+    tools: body.tools,
+  };
+}
+
+/**
+ * Converts an Ollama generate request into a single-turn chat request.
+ */
+function toGenerateRequest(body: OllamaGenerateRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+  if (body.system) {
+    messages.push({ role: 'system', content: body.system });
+  }
+  messages.push({ role: 'user', content: toContent(body.prompt ?? '', body.images) });
+
+  return { ...mapCommon(body), messages };
+}
+
+/* ================================================================== */
+/* Response mapper: Gemini ➞ Ollama                                    */
+/* ================================================================== */
+
+/**
+ * Splits Gemini parts into Ollama's content, thinking and tool calls.
+ */
+function splitParts(parts: GeminiPart[]) {
+  let content = '';
+  let thinking = '';
+  const toolCalls: OllamaToolCall[] = [];
+
+  for (const part of parts) {
+    if (part.functionCall) {
+      toolCalls.push({ function: { name: part.functionCall.name, arguments: part.functionCall.args ?? {} } });
+    } else if (part.thought === true) {
+      thinking += part.text ?? '';
+    } else if (typeof part.text === 'string') {
+      content += part.text;
+    }
+  }
+
+  return { content, thinking, toolCalls };
+}
+
+/**
+ * Builds the output fields for one response line: `message` for
+ * /api/chat, `response` (and `thinking`) for /api/generate.
+ */
+function outputFields(endpoint: 'chat' | 'generate', parts: GeminiPart[]) {
+  const { content, thinking, toolCalls } = splitParts(parts);
+
+  if (endpoint === 'generate') {
+    return { response: content, ...(thinking ? { thinking } : {}) };
+  }
+
+  const message: OllamaMessage = { role: 'assistant', content };
+  if (thinking) message.thinking = thinking;
+  if (toolCalls.length) message.tool_calls = toolCalls;
+  return { message };
+}
+
+/**
+ * Ollama's closing statistics. Durations are nanoseconds; Gemini doesn't
+ * report a prompt/eval split, so all time counts as evaluation.
+ */
+function doneFields(started: bigint, finishReason: string | undefined, usage: GeminiUsageMetadata | undefined) {
+  const elapsed = Number(process.hrtime.bigint() - started);
+  return {
+    done: true,
+    done_reason: mapFinishReason(finishReason, false) === 'length' ? 'length' : 'stop',
+    total_duration: elapsed,
+    load_duration: 0,
+    prompt_eval_count: usage?.promptTokenCount ?? 0,
+    prompt_eval_duration: 0,
+    eval_count: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    eval_duration: elapsed,
+  };
+}
+
+/* ================================================================== */
+/* Handlers                                                            */
+/* ================================================================== */
+
+function sendOllamaError(res: http.ServerResponse, status: number, message: string) {
+  sendJSON(res, status, { error: message });
+}
+
+/**
+ * Runs a converted chat request and replies in Ollama's format,
+ * as NDJSON lines when streaming.
+ */
+async function respond(
+  res: http.ServerResponse,
+  model: string,
+  chatRequest: OpenAIChatRequest,
+  endpoint: 'chat' | 'generate',
+  context: RequestContext,
+) {
+  const validation = validateChatRequest(chatRequest);
+  if (!validation.valid) {
+    console.log('HTTP 400: validation failed');
+    sendOllamaError(res, 400, validation.error.error.message);
+    return;
+  }
+
+  const denied = applyKeyPolicy(chatRequest, context.key)
+    ?? checkRateLimit(res, context, chatRequest.model);
+  if (denied) {
+    console.log(`HTTP ${denied.status}: ${denied.error.error.message}`);
+    sendOllamaError(res, denied.status, denied.error.error.message);
+    return;
+  }
+
+  const started = process.hrtime.bigint();
+  const createdAt = () => new Date().toISOString();
+
+  try {
+    const { geminiReq } = await mapRequest(chatRequest, context);
+
+    if (chatRequest.stream) {
+      // Opened before the headers so upstream failures still get an HTTP status
+      const stream = await sendChatStream(geminiReq, context);
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+
+      console.log('➜ sending HTTP 200 streamed Ollama response');
+
+      let finishReason: string | undefined;
+      let usage: GeminiUsageMetadata | undefined;
+
+      for await (const chunk of stream) {
+        const candidate = chunk?.candidates?.[0];
+        finishReason = candidate?.finishReason ?? finishReason;
+        usage = chunk?.usageMetadata ?? usage;
+
+        const parts = candidate?.content?.parts ?? [];
+        if (parts.length === 0) continue;
+        res.write(JSON.stringify({
+          model,
+          created_at: createdAt(),
+          ...outputFields(endpoint, parts),
+          done: false,
+        }) + '\n');
+      }
+
+      res.end(JSON.stringify({
+        model,
+        created_at: createdAt(),
+        ...outputFields(endpoint, []),
+        ...doneFields(started, finishReason, usage),
+      }) + '\n');
+
+      console.log('➜ done sending streamed Ollama response');
+    } else {
+      const gResp = await sendChat(geminiReq, context);
+
+      const failure = mapResponseError(gResp);
+      if (failure) {
+        console.log(`HTTP ${failure.status}: ${failure.error.error.message}`);
+        sendOllamaError(res, failure.status, failure.error.error.message);
+        return;
+      }
+
+      const candidate = gResp.candidates?.[0];
+      sendJSON(res, 200, {
+        model,
+        created_at: createdAt(),
+        ...outputFields(endpoint, candidate?.content?.parts ?? []),
+        ...doneFields(started, candidate?.finishReason, gResp.usageMetadata),
+      });
+
+      console.log('✅ Replied HTTP 200 Ollama response');
+    }
+  } catch (err: unknown) {
+    if (context.signal?.aborted) return;
+
+    const failure = classifyError(err);
+    const message = failure.error.error.message;
+    console.error(`HTTP ${failure.status} Proxy error ➜`, err);
+
+    // Ollama reports mid-stream failures as a final {error} line
+    if (res.headersSent) {
+      res.end(JSON.stringify({ error: message }) + '\n');
+    } else {
+      sendOllamaError(res, failure.status, message);
+    }
+  }
+}
+
+/**
+ * Reads and validates an Ollama request body. Sends the error response
+ * itself and returns null when the request is unusable.
+ */
+async function readOllamaRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  endpoint: 'chat' | 'generate',
+): Promise<OllamaChatRequest | OllamaGenerateRequest | null> {
+  let rawBody: unknown;
+  try {
+    rawBody = await readJSON(req);
+  } catch {
+    console.log('HTTP 400: malformed JSON');
+    sendOllamaError(res, 400, 'Invalid JSON in request body');
+    return null;
+  }
+
+  const validation = validateOllamaRequest(rawBody, endpoint);
+  if (!validation.valid) {
+    console.log('HTTP 400: validation failed');
+    sendOllamaError(res, 400, validation.error.error.message);
+    return null;
+  }
+
+  return validation.value;
+}
+
+/**
+ * Handles POST /api/chat.
+ */
+export async function handleOllamaChat(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  const body = await readOllamaRequest(req, res, 'chat') as OllamaChatRequest | null;
+  if (!body) return;
+
+  await respond(res, body.model, toChatRequest(body), 'chat', context);
+}
+
+/**
+ * Handles POST /api/generate. An empty prompt is Ollama's "load the
+ * model" call and is answered immediately.
+ */
+export async function handleOllamaGenerate(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  const body = await readOllamaRequest(req, res, 'generate') as OllamaGenerateRequest | null;
+  if (!body) return;
+
+  if (!body.prompt && !body.images?.length) {
+    sendJSON(res, 200, {
+      model: body.model,
+      created_at: new Date().toISOString(),
+      response: '',
+      done: true,
+      done_reason: 'load',
+    });
+    return;
+  }
+
+  await respond(res, body.model, toGenerateRequest(body), 'generate', context);
+}
+
+/**
+ * Describes a model the way Ollama's tags and show endpoints do.
+ */
+function modelDetails() {
+  return {
+    parent_model: '',
+    format: 'gemini',
+    family: 'gemini',
+    families: ['gemini'],
+    parameter_size: '',
+    quantization_level: '',
+  };
+}
+
+/**
+ * Handles GET /api/tags.
+ */
+export function handleOllamaTags(res: http.ServerResponse, key: ApiKey | undefined) {
+  const models = listModels().filter((m) => isModelAllowed(key, m.id)).map(({ id }) => ({
+    name: `${id}:latest`,
+    model: `${id}:latest`,
+    modified_at: STARTED_AT,
+    size: 0,
+    digest: createHash('sha256').update(id).digest('hex'),
+    details: modelDetails(),
+  }));
+  sendJSON(res, 200, { models });
+}
+
+/**
+ * Handles POST /api/show. Models the key may not use are not found, as
+ * they are missing from /api/tags.
+ */
+export async function handleOllamaShow(req: http.IncomingMessage, res: http.ServerResponse, key: ApiKey | undefined) {
+  let body: { model?: unknown; name?: unknown };
+  try {
+    body = await readJSON(req) as typeof body;
+  } catch {
+    sendOllamaError(res, 400, 'Invalid JSON in request body');
+    return;
+  }
+
+  // `name` is the pre-0.5 spelling of `model`
+  const requested = String(body.model ?? body.name ?? '').replace(/:latest$/, '');
+  const model = listModels().find((m) => m.id === requested && isModelAllowed(key, m.id));
+  if (!model) {
+    sendOllamaError(res, 404, `model '${requested}' not found`);
+    return;
+  }
+
+  const isEmbedding = model.id.includes('embedding');
+  sendJSON(res, 200, {
+    license: '',
+    modelfile: '',
+    parameters: '',
+    template: '{{ .Prompt }}',
+    details: modelDetails(),
+    model_info: {
+      'general.architecture': 'gemini',
+      'general.basename': model.id,
+      'gemini.context_length': CONTEXT_LENGTH,
+    },
+    capabilities: isEmbedding ? ['embedding'] : ['completion', 'tools', 'vision', 'thinking'],
+    modified_at: STARTED_AT,
+  });
+}
+
+/**
+ * Handles GET /api/version.
+ */
+export function handleOllamaVersion(res: http.ServerResponse) {
+  sendJSON(res, 200, { version: OLLAMA_VERSION });
+}
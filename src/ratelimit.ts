@@ -0,0 +1,300 @@
+/* ------------------------------------------------------------------ */
+/*  ratelimit.ts – Token-bucket request and token limits per client    */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { getModel } from './chatwrapper';
+import { DATA_DIR } from './store';
+import { createError } from './validation';
+import type { GeminiUsageMetadata, MappedError, RateLimits, RequestContext } from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+/**
+ * Parses rate limits from their JSON form, as used in RATE_LIMIT_MODELS
+ * and the API key file. Throws on anything but positive integers.
+ */
+export function parseRateLimits(value: unknown, where: string): RateLimits {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`${where} must be an object`);
+  }
+  const obj = value as Record<string, unknown>;
+  const limits: RateLimits = {};
+  const fields = [
+    ['requests_per_minute', 'requestsPerMinute'],
+    ['tokens_per_minute', 'tokensPerMinute'],
+    ['tokens_per_day', 'tokensPerDay'],
+  ] as const;
+
+  for (const [jsonName, name] of fields) {
+    const limit = obj[jsonName];
+    if (limit === undefined) continue;
+    if (!Number.isInteger(limit) || (limit as number) <= 0) {
+      throw new Error(`${where}.${jsonName} must be a positive integer`);
+    }
+    limits[name] = limit as number;
+  }
+  return limits;
+}
+
+function envLimit(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : undefined;
+}
+
+// Limits for each client (each API key, or everyone when auth is off)
+const DEFAULT_LIMITS: RateLimits = {
+  requestsPerMinute: envLimit('RATE_LIMIT_RPM'),
+  tokensPerMinute: envLimit('RATE_LIMIT_TPM'),
+  tokensPerDay: envLimit('RATE_LIMIT_TPD'),
+};
+
+// Limits for each client's use of a given model, e.g.
+// {"gemini-2.5-pro": {"requests_per_minute": 5}}
+const MODEL_LIMITS: Record<string, RateLimits> = Object.fromEntries(
+  Object.entries(JSON.parse(process.env.RATE_LIMIT_MODELS ?? '{}') as Record<string, unknown>)
+    .map(([model, limits]) => [model, parseRateLimits(limits, `RATE_LIMIT_MODELS.${model}`)]),
+);
+
+// Counters are kept here so a restart doesn't hand out fresh quota
+const STATE_FILE = process.env.RATE_LIMIT_STATE_FILE ?? path.join(DATA_DIR, 'ratelimits.json');
+
+// How long to batch counter changes before writing the state file
+const SAVE_DELAY_MS = 1_000;
+
+/* ── Buckets ───────────────────────────────────────────────────────── */
+
+/**
+ * A token bucket: `level` units are available and it refills at
+ * `limit` units per period, up to `limit`. Token buckets are charged
+ * after the response and may go negative.
+ */
+interface Bucket {
+  level: number;
+  updated: number;
+}
+
+/** One limit that applies to a request, with its bucket. */
+interface AppliedLimit {
+  id: string;
+  kind: 'requests' | 'tokens';
+  limit: number;
+  periodMs: number;
+}
+
+const buckets = new Map<string, Bucket>(loadState());
+let saveTimer: NodeJS.Timeout | undefined;
+
+function loadState(): Array<[string, Bucket]> {
+  try {
+    const state = JSON.parse(readFileSync(STATE_FILE, 'utf-8')) as { buckets?: Record<string, Bucket> };
+    return Object.entries(state.buckets ?? {});
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Ignoring unreadable rate limit state ${STATE_FILE}:`, err);
+    }
+    return [];
+  }
+}
+
+function saveState() {
+  saveTimer = undefined;
+  try {
+    mkdirSync(path.dirname(STATE_FILE), { recursive: true });
+    const tmp = `${STATE_FILE}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify({ buckets: Object.fromEntries(buckets) }));
+    renameSync(tmp, STATE_FILE);
+  } catch (err) {
+    console.error('Failed to save rate limit state:', err);
+  }
+}
+
+function scheduleSave() {
+  saveTimer ??= setTimeout(saveState, SAVE_DELAY_MS).unref();
+}
+
+// Flush pending counter changes on shutdown
+process.on('exit', () => {
+  if (saveTimer) saveState();
+});
+
+// Ctrl-C and `docker stop` end the process without 'exit' unless handled;
+// exit with the usual status so the flush above runs
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => process.exit(128 + os.constants.signals[signal]));
+}
+
+/**
+ * Returns the bucket's level after refilling it up to now.
+ */
+function refill(applied: AppliedLimit, now: number): Bucket {
+  const bucket = buckets.get(applied.id) ?? { level: applied.limit, updated: now };
+  const refilled = (now - bucket.updated) * applied.limit / applied.periodMs;
+  bucket.level = Math.min(applied.limit, bucket.level + refilled);
+  bucket.updated = now;
+  buckets.set(applied.id, bucket);
+  return bucket;
+}
+
+/** Milliseconds until the bucket holds `level` units again. */
+function msUntil(applied: AppliedLimit, bucket: Bucket, level: number): number {
+  return Math.max(0, Math.ceil((level - bucket.level) * applied.periodMs / applied.limit));
+}
+
+/**
+ * Formats a duration the way OpenAI's reset headers do, e.g. "20ms",
+ * "1.5s" or "6m0s".
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < MINUTE_MS) return `${Number((ms / 1000).toFixed(2))}s`;
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / MINUTE_MS);
+  const seconds = Math.round((ms % MINUTE_MS) / 1000);
+  return `${hours ? `${hours}h` : ''}${minutes}m${seconds}s`;
+}
+
+/* ── Limits ────────────────────────────────────────────────────────── */
+
+/**
+ * Lists the limits for a client and model. A key's own limits replace
+ * the defaults; client-wide and per-model limits both apply.
+ */
+function appliedLimits(context: RequestContext, model: string): AppliedLimit[] {
+  const client = context.key?.name ?? 'anonymous';
+  const scopes: Array<[string, RateLimits | undefined]> = [
+    [client, context.key?.rateLimits ?? DEFAULT_LIMITS],
+    [`${client}:${model}`, context.key?.modelRateLimits?.[model] ?? MODEL_LIMITS[model]],
+  ];
+
+  const applied: AppliedLimit[] = [];
+  for (const [scope, limits] of scopes) {
+    if (limits?.requestsPerMinute) {
+      applied.push({ id: `${scope}:rpm`, kind: 'requests', limit: limits.requestsPerMinute, periodMs: MINUTE_MS });
+    }
+    if (limits?.tokensPerMinute) {
+      applied.push({ id: `${scope}:tpm`, kind: 'tokens', limit: limits.tokensPerMinute, periodMs: MINUTE_MS });
+    }
+    if (limits?.tokensPerDay) {
+      applied.push({ id: `${scope}:tpd`, kind: 'tokens', limit: limits.tokensPerDay, periodMs: DAY_MS });
+    }
+  }
+  return applied;
+}
+
+/**
+ * Sets the x-ratelimit-* headers from the tightest request and token
+ * limits.
+ */
+function setHeaders(res: http.ServerResponse, applied: AppliedLimit[], now: number) {
+  for (const kind of ['requests', 'tokens'] as const) {
+    const tightest = applied
+      .filter((a) => a.kind === kind)
+      .map((a) => ({ applied: a, bucket: refill(a, now) }))
+      .sort((x, y) => x.bucket.level - y.bucket.level)[0];
+    if (!tightest) continue;
+
+    const { applied: limit, bucket } = tightest;
+    res.setHeader(`x-ratelimit-limit-${kind}`, String(limit.limit));
+    res.setHeader(`x-ratelimit-remaining-${kind}`, String(Math.max(0, Math.floor(bucket.level))));
+    res.setHeader(`x-ratelimit-reset-${kind}`, formatDuration(msUntil(limit, bucket, limit.limit)));
+  }
+}
+
+/**
+ * Finds the exhausted limit with the longest wait, if any.
+ */
+function findExhausted(applied: AppliedLimit[], now: number) {
+  return applied
+    .map((a) => {
+      const bucket = refill(a, now);
+      // A request needs a whole unit; tokens only need a positive balance
+      const needed = a.kind === 'requests' ? 1 : Number.MIN_VALUE;
+      return { applied: a, wait: bucket.level >= needed ? 0 : msUntil(a, bucket, needed) };
+    })
+    .filter((e) => e.wait > 0)
+    .sort((x, y) => y.wait - x.wait)[0];
+}
+
+/**
+ * Counts one request and sets `context.onUsage` to charge the response's
+ * tokens.
+ */
+function admit(context: RequestContext, applied: AppliedLimit[]) {
+  for (const a of applied) {
+    if (a.kind === 'requests') buckets.get(a.id)!.level -= 1;
+  }
+  scheduleSave();
+
+  context.onUsage = (usage: GeminiUsageMetadata) => {
+    const tokens = usage.totalTokenCount
+      ?? (usage.promptTokenCount ?? 0) + (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+    const chargedAt = Date.now();
+    for (const a of applied) {
+      if (a.kind === 'tokens') refill(a, chargedAt).level -= tokens;
+    }
+    scheduleSave();
+  };
+}
+
+/**
+ * Admits a request for a model against the client's limits. On success
+ * one request is counted and `context.onUsage` is set to charge the
+ * response's tokens; otherwise a 429 error is returned with Retry-After
+ * set. Either way the rate limit headers are set on the response.
+ */
+export function checkRateLimit(
+  res: http.ServerResponse,
+  context: RequestContext,
+  model: string | undefined,
+): MappedError | null {
+  const applied = appliedLimits(context, model ?? getModel());
+  if (applied.length === 0) return null;
+
+  const now = Date.now();
+  const exhausted = findExhausted(applied, now);
+  if (exhausted) {
+    setHeaders(res, applied, now);
+    res.setHeader('Retry-After', String(Math.ceil(exhausted.wait / 1000)));
+    const { kind, limit, periodMs } = exhausted.applied;
+    const per = periodMs === DAY_MS ? 'day' : 'minute';
+    return {
+      status: 429,
+      error: createError(
+        `Rate limit reached for ${context.key ? `API key '${context.key.name}'` : 'this server'}: `
+          + `${limit} ${kind} per ${per}. Try again in ${formatDuration(exhausted.wait)}.`,
+        kind,
+        'rate_limit_exceeded',
+      ),
+    };
+  }
+
+  admit(context, applied);
+  setHeaders(res, applied, now);
+  return null;
+}
+
+/**
+ * Waits until the client's limits admit a request for a model, then
+ * admits it like checkRateLimit. Batch jobs use this to pace themselves
+ * instead of failing with 429s.
+ */
+export async function waitForRateLimit(
+  context: RequestContext,
+  model: string | undefined,
+  signal?: AbortSignal,
+): Promise<void> {
+  const applied = appliedLimits(context, model ?? getModel());
+  if (applied.length === 0) return;
+
+  for (let exhausted = findExhausted(applied, Date.now()); exhausted; exhausted = findExhausted(applied, Date.now())) {
+    await sleep(exhausted.wait, undefined, { signal });
+  }
+  admit(context, applied);
+}
@@ -1,7 +1,13 @@
 /* ------------------------------------------------------------------ */
 /*  remoteimage.ts – Fetch and encode remote images with safety limits */
 /* ------------------------------------------------------------------ */
-import { fetch } from 'undici';
+import { createHash } from 'crypto';
+import dns from 'dns';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import { Agent, fetch } from 'undici';
+import { createStore, DATA_DIR } from './store';
 
 /* ── Configuration ─────────────────────────────────────────────────── */
 
@@ -13,6 +19,39 @@ const FETCH_TIMEOUT_MS = Number(process.env.IMAGE_FETCH_TIMEOUT_MS ?? 120_000);
 // Gemini supports up to 4K output; uncompressed RGBA at 3840×2160 is ~32 MB
 const MAX_IMAGE_SIZE_BYTES = Number(process.env.MAX_IMAGE_SIZE_BYTES ?? 50 * 1024 * 1024);
 
+// Redirects followed per image; each hop is checked like the original URL
+const MAX_REDIRECTS = Number(process.env.IMAGE_FETCH_MAX_REDIRECTS ?? 5);
+
+/**
+ * Host lists, comma-separated; `*.example.com` also matches subdomains.
+ * With an allow list only those hosts are fetched; the deny list always
+ * applies.
+ */
+function parseHosts(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((h) => h.trim().toLowerCase()).filter(Boolean);
+}
+const ALLOWED_HOSTS = parseHosts(process.env.IMAGE_FETCH_ALLOW_HOSTS);
+const DENIED_HOSTS = parseHosts(process.env.IMAGE_FETCH_DENY_HOSTS);
+
+// Private, loopback and link-local addresses are refused unless this is
+// set, e.g. for a bridge that serves images from the local network
+const ALLOW_PRIVATE = process.env.IMAGE_FETCH_ALLOW_PRIVATE === 'true';
+
+// Fetched images are cached on disk by URL; 0 disables the cache
+const CACHE_TTL_MS = Number(process.env.IMAGE_CACHE_TTL_MS ?? 24 * 60 * 60 * 1000);
+
+// Total size of cached image bytes; the least recently fetched go first
+const CACHE_MAX_BYTES = Number(process.env.IMAGE_CACHE_MAX_BYTES ?? 512 * 1024 * 1024);
+
+// Image bytes are stored once per content hash, however many URLs share them
+const CACHE_BLOB_DIR = path.join(DATA_DIR, 'image-cache', 'blobs');
+
+// Expired images are swept out this often; a sweep also runs when the cap is passed
+const CACHE_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// A sweep trims the cache to this share of the cap, so the next writes don't sweep again
+const CACHE_SWEEP_TARGET = 0.9;
+
 // Allowed content types for images
 const ALLOWED_CONTENT_TYPES = [
   'image/png',
@@ -20,45 +59,346 @@ const ALLOWED_CONTENT_TYPES = [
   'image/gif',
   'image/webp',
   'image/svg+xml',
+  'image/heic',
+  'image/heif',
 ];
 
+/**
+ * Thrown when a remote image can't be used. `code` says why, so the
+ * failure can be reported with a matching HTTP status.
+ */
+export class ImageFetchError extends Error {
+  constructor(
+    message: string,
+    readonly code:
+      | 'image_fetch_failed'
+      | 'image_fetch_timeout'
+      | 'image_too_large'
+      | 'image_url_blocked'
+      | 'unsupported_image_type',
+  ) {
+    super(message);
+    this.name = 'ImageFetchError';
+  }
+}
+
+/* ── Address checks ────────────────────────────────────────────────── */
+
+// Ranges that must not be reachable through the bridge
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata services
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['64:ff9b:1::', 48], // local-use NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// /96 prefixes whose last 32 bits are an IPv4 address: IPv4-compatible
+// (::a.b.c.d), IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+const IPV4_EMBEDDING_PREFIXES = ['0:0:0:0:0:0', '0:0:0:0:0:ffff', '64:ff9b:0:0:0:0'];
+
+/**
+ * Returns the IPv4 address embedded in an IPv6 address, in any of its
+ * spellings (`::ffff:7f00:1` is `::ffff:127.0.0.1`), if it has one.
+ */
+function embeddedIPv4(address: string): string | undefined {
+  if (!net.isIPv6(address)) return undefined;
+  const hex = address.toLowerCase().replace(/%.*$/, '')
+    .replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_, a, b, c, d) =>
+      `${((+a << 8) | +b).toString(16)}:${((+c << 8) | +d).toString(16)}`);
+  const [head, tail] = hex.split('::');
+  const headWords = head ? head.split(':') : [];
+  const tailWords = tail ? tail.split(':') : [];
+  const words = tail === undefined
+    ? headWords
+    : [...headWords, ...Array<string>(8 - headWords.length - tailWords.length).fill('0'), ...tailWords];
+  const [high, low] = words.slice(6).map((w) => parseInt(w, 16));
+  const prefix = words.slice(0, 6).map((w) => parseInt(w, 16).toString(16)).join(':');
+  if (!IPV4_EMBEDDING_PREFIXES.includes(prefix)) return undefined;
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/** True if images may not be fetched from this address. */
+export function isBlockedAddress(address: string): boolean {
+  if (ALLOW_PRIVATE) return false;
+  // IPv6 addresses that carry an IPv4 address are checked as that address
+  const ipv4 = embeddedIPv4(address);
+  if (ipv4) return BLOCKED_RANGES.check(ipv4, 'ipv4');
+  return BLOCKED_RANGES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolves hostnames for image connections, refusing blocked addresses.
+ * Checking at connect time covers every redirect hop and leaves no gap
+ * for DNS rebinding between a check and the connection.
+ */
+const checkedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address, family) => {
+    if (err) {
+      callback(err, address, family);
+      return;
+    }
+    const addresses = Array.isArray(address) ? address.map((a) => a.address) : [address];
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) {
+      const refused = new ImageFetchError(`Image host ${hostname} resolves to a blocked address (${blocked})`,
+        'image_url_blocked') as Error as NodeJS.ErrnoException;
+      callback(refused, address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+const agent = new Agent({ connect: { lookup: checkedLookup } });
+
+function matchesHost(host: string, pattern: string): boolean {
+  return pattern.startsWith('*.')
+    ? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+    : host === pattern;
+}
+
+/**
+ * Checks a URL before it is requested: scheme, host lists, and literal
+ * IP addresses (which are connected to without a lookup).
+ */
+function checkUrl(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImageFetchError(`Image URL must use http or https: ${url}`, 'image_url_blocked');
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (DENIED_HOSTS.some((p) => matchesHost(host, p))
+    || (ALLOWED_HOSTS.length > 0 && !ALLOWED_HOSTS.some((p) => matchesHost(host, p)))) {
+    throw new ImageFetchError(`Image host ${host} is not allowed`, 'image_url_blocked');
+  }
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new ImageFetchError(`Image host ${host} is a blocked address`, 'image_url_blocked');
+  }
+}
+
+/* ── Cache ─────────────────────────────────────────────────────────── */
+
+/**
+ * A cached URL: the content hash of its bytes, and when it was fetched.
+ */
+interface CachedImage {
+  url: string;
+  sha256: string;
+  mimeType: string;
+  fetchedAt: number;
+}
+
+const cacheIndex = createStore<CachedImage>(path.join('image-cache', 'urls'));
+
+function urlKey(url: string): string {
+  return createHash('sha256').update(url).digest('hex');
+}
+
+async function readCache(url: string) {
+  if (CACHE_TTL_MS <= 0) return null;
+  try {
+    const entry = await cacheIndex.get(urlKey(url));
+    if (!entry || entry.url !== url || Date.now() - entry.fetchedAt > CACHE_TTL_MS) return null;
+    const data = await fs.readFile(path.join(CACHE_BLOB_DIR, entry.sha256));
+    return { mimeType: entry.mimeType, data: data.toString('base64') };
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('Ignoring unreadable image cache entry:', err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Sizes and modification times of the cached blobs by content hash,
+ * leaving out half-written ones.
+ */
+async function listBlobs(): Promise<Map<string, { size: number; mtimeMs: number }>> {
+  let names: string[];
+  try {
+    names = await fs.readdir(CACHE_BLOB_DIR);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+    throw err;
+  }
+  const blobs = new Map<string, { size: number; mtimeMs: number }>();
+  for (const name of names.filter((n) => !n.endsWith('.tmp'))) {
+    try {
+      const { size, mtimeMs } = await fs.stat(path.join(CACHE_BLOB_DIR, name));
+      blobs.set(name, { size, mtimeMs });
+    } catch {
+      // Removed by a concurrent sweep
+    }
+  }
+  return blobs;
+}
+
+// Blobs whose URL entry is still being written, which a sweep must not take, with their writer counts
+const writingBlobs = new Map<string, number>();
+
+// Cached bytes as of the last sweep plus those written since; unknown until the first sweep
+let cachedBytes: number | undefined;
+
+/**
+ * Drops expired URLs, then the least recently fetched ones until the
+ * blobs still in use fit in CACHE_SWEEP_TARGET of the cap, then every
+ * unused blob. Blobs written since the sweep started are left alone, as
+ * their URL entries may not be listed yet.
+ */
+async function sweepCache() {
+  const startedAt = Date.now();
+  const blobs = await listBlobs();
+  const entries = (await cacheIndex.list()).sort((a, b) => b.fetchedAt - a.fetchedAt);
+  const kept = new Set<string>();
+  let bytes = 0;
+
+  for (const entry of entries) {
+    const size = blobs.get(entry.sha256)?.size;
+    const fits = kept.has(entry.sha256) || (size !== undefined && bytes + size <= CACHE_MAX_BYTES * CACHE_SWEEP_TARGET);
+    if (startedAt - entry.fetchedAt > CACHE_TTL_MS || !fits) {
+      await cacheIndex.delete(urlKey(entry.url));
+    } else if (!kept.has(entry.sha256)) {
+      kept.add(entry.sha256);
+      bytes += size!;
+    }
+  }
+
+  for (const [sha256, { size, mtimeMs }] of blobs) {
+    if (kept.has(sha256)) continue;
+    if (mtimeMs >= startedAt || writingBlobs.has(sha256)) {
+      bytes += size;
+      continue;
+    }
+    await fs.rm(path.join(CACHE_BLOB_DIR, sha256), { force: true });
+  }
+  cachedBytes = bytes;
+}
+
+// One sweep at a time; a write during a sweep is picked up by the next one
+let sweeping: Promise<void> | undefined;
+
+function startSweep() {
+  sweeping ??= sweepCache()
+    .catch((err) => console.warn('Failed to sweep image cache:', err))
+    .finally(() => {
+      sweeping = undefined;
+    });
+}
+
+if (CACHE_TTL_MS > 0) setInterval(startSweep, CACHE_SWEEP_INTERVAL_MS).unref();
+
+async function writeCache(url: string, mimeType: string, buf: Buffer) {
+  if (CACHE_TTL_MS <= 0) return;
+  const sha256 = createHash('sha256').update(buf).digest('hex');
+  writingBlobs.set(sha256, (writingBlobs.get(sha256) ?? 0) + 1);
+  try {
+    const blob = path.join(CACHE_BLOB_DIR, sha256);
+    await fs.mkdir(CACHE_BLOB_DIR, { recursive: true });
+    const tmp = `${blob}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, buf);
+    await fs.rename(tmp, blob);
+    await cacheIndex.put(urlKey(url), { url, sha256, mimeType, fetchedAt: Date.now() });
+  } catch (err) {
+    console.warn('Failed to cache image:', err);
+  } finally {
+    const writers = writingBlobs.get(sha256)! - 1;
+    if (writers > 0) writingBlobs.set(sha256, writers);
+    else writingBlobs.delete(sha256);
+  }
+
+  // Counted once per write, so a refetched image may be counted twice until the next sweep
+  if (cachedBytes !== undefined) cachedBytes += buf.length;
+  if (cachedBytes === undefined || cachedBytes > CACHE_MAX_BYTES) startSweep();
+}
+
 /* ── Exported function ─────────────────────────────────────────────── */
 
 /**
  * Fetches a remote image and encodes it as base64 with safety limits.
+ * Private addresses, disallowed hosts and non-image responses are
+ * refused; recently fetched URLs are served from the disk cache.
  *
  * @param url - The URL of the image to fetch
+ * @param signal - Aborts the fetch, e.g. when the client disconnects
  * @returns Object with mimeType and base64-encoded data
- * @throws Error if fetch fails, times out, or image exceeds size limit
+ * @throws ImageFetchError if fetch fails, is refused, times out, or image exceeds size limit
  */
-export async function fetchAndEncode(url: string) {
+export async function fetchAndEncode(url: string, signal?: AbortSignal) {
+  signal?.throwIfAborted();
+
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new ImageFetchError(`Invalid image URL: ${url}`, 'image_fetch_failed');
+  }
+  checkUrl(target);
+
+  const cached = await readCache(url);
+  if (cached) {
+    console.log(`Image served from cache: ${url}`);
+    return cached;
+  }
+
   // Create an AbortController for timeout handling
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel, { once: true });
 
   try {
-    const res = await fetch(url, {
-      signal: controller.signal,
-      // Don't follow too many redirects
-      redirect: 'follow',
-    });
+    // Follow redirects by hand so every hop is checked
+    let res = await fetch(target, { signal: controller.signal, redirect: 'manual', dispatcher: agent });
+    for (let hops = 0; res.status >= 300 && res.status < 400 && res.headers.has('location'); hops++) {
+      if (hops >= MAX_REDIRECTS) {
+        throw new ImageFetchError(`Too many redirects fetching image: ${url}`, 'image_fetch_failed');
+      }
+      await res.body?.cancel();
+      target = new URL(res.headers.get('location')!, target);
+      checkUrl(target);
+      res = await fetch(target, { signal: controller.signal, redirect: 'manual', dispatcher: agent });
+    }
 
     if (!res.ok) {
-      throw new Error(`Failed to fetch image: ${url} (HTTP ${res.status})`);
+      throw new ImageFetchError(`Failed to fetch image: ${url} (HTTP ${res.status})`, 'image_fetch_failed');
     }
 
     // Check content-length header if available
     const contentLength = res.headers.get('content-length');
     if (contentLength && parseInt(contentLength, 10) > MAX_IMAGE_SIZE_BYTES) {
-      throw new Error(
+      throw new ImageFetchError(
         `Image too large: ${url} (${contentLength} bytes exceeds ${MAX_IMAGE_SIZE_BYTES} byte limit)`,
+        'image_too_large',
       );
     }
 
-    // Validate content type
-    const contentType = res.headers.get('content-type')?.split(';')[0].trim() ?? '';
-    if (contentType && !ALLOWED_CONTENT_TYPES.some((t) => contentType.startsWith(t))) {
-      console.warn(`Unexpected content type for image: ${contentType}`);
+    // Only pass on what the server says is an image
+    const contentType = res.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+    if (!ALLOWED_CONTENT_TYPES.includes(contentType)) {
+      throw new ImageFetchError(
+        `Unsupported image type for ${url}: ${contentType || 'no content type'}`,
+        'unsupported_image_type',
+      );
     }
 
     // Read response body with size limit enforcement
@@ -72,8 +412,9 @@ export async function fetchAndEncode(url: string) {
         if (totalSize > MAX_IMAGE_SIZE_BYTES) {
           // Abort the request immediately when size limit is exceeded
           controller.abort();
-          throw new Error(
+          throw new ImageFetchError(
             `Image too large: ${url} (exceeds ${MAX_IMAGE_SIZE_BYTES} byte limit during download)`,
+            'image_too_large',
           );
         }
         chunks.push(chunk);
@@ -82,27 +423,36 @@ export async function fetchAndEncode(url: string) {
       // Fallback for environments where body isn't iterable
       const buf = Buffer.from(await res.arrayBuffer());
       if (buf.length > MAX_IMAGE_SIZE_BYTES) {
-        throw new Error(
+        throw new ImageFetchError(
           `Image too large: ${url} (${buf.length} bytes exceeds ${MAX_IMAGE_SIZE_BYTES} byte limit)`,
+          'image_too_large',
         );
       }
-      return {
-        mimeType: contentType || 'image/png',
-        data: buf.toString('base64'),
-      };
+      chunks.push(buf);
     }
 
     const buf = Buffer.concat(chunks);
-    const mimeType = contentType || 'image/png';
+    await writeCache(url, contentType, buf);
 
-    return { mimeType, data: buf.toString('base64') };
+    return { mimeType: contentType, data: buf.toString('base64') };
   } catch (err) {
+    if (err instanceof ImageFetchError) throw err;
+    // Cancelled by the caller rather than timed out
+    if (signal?.aborted) throw err;
     // Re-throw with more context if it's an abort error
     if (err instanceof Error && err.name === 'AbortError') {
-      throw new Error(`Image fetch timed out after ${FETCH_TIMEOUT_MS}ms: ${url}`);
+      throw new ImageFetchError(`Image fetch timed out after ${FETCH_TIMEOUT_MS}ms: ${url}`, 'image_fetch_timeout');
     }
-    throw err;
+    // A refused lookup surfaces as the cause of undici's "fetch failed"
+    const cause = (err as { cause?: unknown }).cause;
+    if (cause instanceof ImageFetchError) throw cause;
+    // DNS failures, refused connections, bad URLs and the like
+    throw new ImageFetchError(
+      `Failed to fetch image: ${url} (${err instanceof Error ? err.message : String(err)})`,
+      'image_fetch_failed',
+    );
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', cancel);
   }
 }
@@ -0,0 +1,209 @@
+/* ------------------------------------------------------------------ */
+/*  responsecache.ts – Exact-match cache of deterministic responses    */
+/* ------------------------------------------------------------------ */
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { createStore, DATA_DIR } from './store';
+import type { GeminiResponse, GeminiStreamChunk, RequestContext } from './types';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+/**
+ * Where responses are cached: `off`, `memory`, or `disk` (memory in
+ * front of files under DATA_DIR, so entries survive a restart). Only
+ * requests with `temperature: 0` are cached.
+ */
+const MODE = (process.env.RESPONSE_CACHE ?? 'off').trim().toLowerCase();
+if (!['off', 'memory', 'disk'].includes(MODE)) {
+  throw new Error(`RESPONSE_CACHE: unknown mode "${MODE}" (expected off, memory or disk)`);
+}
+
+// Responses kept in memory, and on disk in disk mode; the least recently used go first
+const MAX_ENTRIES = Number(process.env.RESPONSE_CACHE_MAX_ENTRIES ?? 1000);
+
+// How long a cached response is served; 0 for no expiry
+const TTL_MS = Number(process.env.RESPONSE_CACHE_TTL_MS ?? 24 * 60 * 60 * 1000);
+
+// Finish reasons of complete answers; anything else is not cached
+const CACHEABLE_FINISH_REASONS = ['STOP', 'MAX_TOKENS'];
+
+/* ── Storage ───────────────────────────────────────────────────────── */
+
+/**
+ * A cached reply: the whole response, or for streams the chunks in
+ * order. `model` is the model that served it, after any fallback.
+ */
+export interface CachedResponse {
+  model: string;
+  storedAt: number;
+  response?: GeminiResponse;
+  chunks?: GeminiStreamChunk[];
+}
+
+// Map iteration follows insertion order, so the first key is the LRU
+const memory = new Map<string, CachedResponse>();
+const disk = MODE === 'disk' ? createStore<CachedResponse>('response-cache') : undefined;
+
+function isFresh(entry: CachedResponse): boolean {
+  return TTL_MS <= 0 || Date.now() - entry.storedAt < TTL_MS;
+}
+
+/**
+ * When each entry on disk was stored, least recently used first. Built
+ * from file times on first use, so the cap and TTL can be applied
+ * without reading the entries; expired files are removed then.
+ */
+let diskIndex: Promise<Map<string, number>> | undefined;
+
+function loadDiskIndex(): Promise<Map<string, number>> {
+  diskIndex ??= (async () => {
+    const dir = path.join(DATA_DIR, 'response-cache');
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+      throw err;
+    }
+    const stored: Array<[string, number]> = [];
+    for (const name of names.filter((n) => n.endsWith('.json'))) {
+      try {
+        stored.push([name.slice(0, -'.json'.length), (await fs.stat(path.join(dir, name))).mtimeMs]);
+      } catch {
+        // Removed meanwhile
+      }
+    }
+    const index = new Map(stored.sort(([, a], [, b]) => a - b));
+    await trimDisk(index);
+    return index;
+  })();
+  return diskIndex;
+}
+
+/**
+ * Deletes expired entries from disk, then the least recently used ones
+ * beyond MAX_ENTRIES.
+ */
+async function trimDisk(index: Map<string, number>) {
+  for (const [key, storedAt] of index) {
+    if (TTL_MS > 0 && Date.now() - storedAt >= TTL_MS) {
+      index.delete(key);
+      await disk?.delete(key);
+    }
+  }
+  while (index.size > MAX_ENTRIES) {
+    const oldest = index.keys().next().value!;
+    index.delete(oldest);
+    await disk?.delete(oldest);
+  }
+}
+
+// Disk writes run one at a time, so the index keeps the order they were made in
+let diskWrites = Promise.resolve();
+
+function writeDisk(key: string, entry: CachedResponse) {
+  diskWrites = diskWrites.then(async () => {
+    const index = await loadDiskIndex();
+    await disk!.put(key, entry);
+    index.delete(key);
+    index.set(key, entry.storedAt);
+    await trimDisk(index);
+  }).catch((err) => console.warn('Failed to cache response:', err));
+}
+
+function remember(key: string, entry: CachedResponse) {
+  memory.delete(key);
+  memory.set(key, entry);
+  while (memory.size > MAX_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal requests hash equally however
+ * their fields were ordered.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => stableStringify(v ?? null)).join(',')}]`;
+  if (typeof value !== 'object' || value === null) return JSON.stringify(value);
+  const fields = Object.entries(value)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+  return `{${fields.join(',')}}`;
+}
+
+/* ── Exported functions ────────────────────────────────────────────── */
+
+/**
+ * Returns the cache key of a mapped request: a hash of the model,
+ * contents, config (including tools) and system instruction, and
+ * whether it streams. Undefined when the request isn't cached: the
+ * cache is off, sampling isn't deterministic, or the client sent
+ * `Cache-Control: no-store`.
+ */
+export function responseCacheKey(
+  request: { model: string; contents: unknown; config: Record<string, unknown>; systemInstruction?: string },
+  stream: boolean,
+  context?: RequestContext,
+): string | undefined {
+  if (MODE === 'off' || request.config.temperature !== 0 || context?.cacheControl === 'no-store') return undefined;
+  return createHash('sha256').update(stableStringify({ ...request, stream })).digest('hex');
+}
+
+/**
+ * Looks up a cached reply and reports the hit or miss to the context.
+ * `Cache-Control: no-cache` skips the lookup, so the reply is fetched
+ * afresh and replaces the cached one.
+ */
+export async function getCachedResponse(key: string, context?: RequestContext): Promise<CachedResponse | undefined> {
+  let entry = context?.cacheControl === 'no-cache' ? undefined : memory.get(key);
+  if (entry && !isFresh(entry)) {
+    memory.delete(key);
+    entry = undefined;
+  }
+
+  if (!entry && disk && context?.cacheControl !== 'no-cache') {
+    try {
+      const index = await loadDiskIndex();
+      const stored = index.has(key) ? await disk.get(key) : undefined;
+      if (stored && isFresh(stored)) {
+        entry = stored;
+      } else if (stored) {
+        index.delete(key);
+        await disk.delete(key);
+      }
+    } catch (err) {
+      console.warn('Ignoring unreadable response cache entry:', err);
+    }
+  }
+
+  if (entry) {
+    remember(key, entry);
+    // Mark it as recently used on disk too, so both evict the same entries
+    const index = disk && await loadDiskIndex().catch(() => undefined);
+    if (index?.has(key)) {
+      index.delete(key);
+      index.set(key, entry.storedAt);
+    }
+  }
+  context?.onCacheLookup?.(entry !== undefined);
+  return entry;
+}
+
+/**
+ * Caches a reply if it's a complete answer: every candidate finished
+ * normally and the prompt wasn't blocked.
+ */
+export function cacheResponse(key: string, entry: Omit<CachedResponse, 'storedAt'>) {
+  const candidates = entry.response?.candidates
+    ?? entry.chunks?.flatMap((c) => c.candidates ?? []).filter((c) => c.finishReason);
+  const complete = candidates !== undefined && candidates.length > 0
+    && candidates.every((c) => CACHEABLE_FINISH_REASONS.includes(c.finishReason ?? ''));
+  if (!complete) return;
+
+  const stored = { ...entry, storedAt: Date.now() };
+  remember(key, stored);
+  if (disk) writeDisk(key, stored);
+}
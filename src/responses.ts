@@ -0,0 +1,573 @@
+/* ------------------------------------------------------------------ */
+/*  responses.ts – OpenAI Responses API front-end (/v1/responses)      */
+/* ------------------------------------------------------------------ */
+import type http from 'http';
+import { randomUUID } from 'crypto';
+import { sendChat, sendChatStream, getModel, resolveModel } from './chatwrapper';
+import { mapRequest, mapResponseError, mapFinishReason } from './mapper';
+import { applyKeyPolicy } from './auth';
+import { checkRateLimit } from './ratelimit';
+import { classifyError } from './errors';
+import { readJSON, sendJSON, sendError } from './http';
+import { createStore } from './store';
+import {
+  validateChatRequest,
+  validateResponsesRequest,
+  validateStructuredOutput,
+  createError,
+} from './validation';
+import type {
+  ApiKey,
+  RequestContext,
+  GeminiStreamChunk,
+  GeminiUsageMetadata,
+  OpenAIChatRequest,
+  OpenAIContentItem,
+  OpenAIMessage,
+  OpenAIResponseFormat,
+  ResponsesItem,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponsesStreamEvent,
+  ResponsesTextFormat,
+  ResponsesUsage,
+} from './types';
+
+type MessageItem = Extract<ResponsesItem, { role: string }>;
+type ReasoningItem = Extract<ResponsesItem, { type: 'reasoning' }>;
+type FunctionCallItem = Extract<ResponsesItem, { type: 'function_call' }>;
+
+/**
+ * A stored response plus the conversation that led to it, so a later
+ * request can continue it with `previous_response_id`. Instructions are
+ * not part of the history; each request supplies its own. `owner` is the
+ * name of the API key that created it, when auth is enabled.
+ */
+interface StoredResponse {
+  response: ResponsesResponse;
+  input: ResponsesItem[];
+  owner?: string;
+}
+
+const responseStore = createStore<StoredResponse>('responses');
+
+/**
+ * Loads a stored response, treating other keys' responses as missing.
+ */
+async function loadResponse(id: string, key: ApiKey | undefined): Promise<StoredResponse | undefined> {
+  const stored = await responseStore.get(id);
+  return stored && stored.owner === key?.name ? stored : undefined;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_${randomUUID().replace(/-/g, '')}`;
+}
+
+/* ================================================================== */
+/* Request mapper: Responses ➞ OpenAI chat                             */
+/* ================================================================== */
+
+/**
+ * Converts message content parts into OpenAI chat content.
+ */
+function toContent(content: MessageItem['content']): string | OpenAIContentItem[] {
+  if (typeof content === 'string') return content;
+  return content.map((part): OpenAIContentItem => (part.type === 'input_image'
+    ? { type: 'image_url', image_url: { url: part.image_url ?? '' } }
+    : { type: 'text', text: part.text }));
+}
+
+/**
+ * Maps `text.format` to the equivalent chat `response_format`.
+ */
+function toResponseFormat(format: ResponsesTextFormat | undefined): OpenAIResponseFormat | undefined {
+  if (format?.type !== 'json_schema') return format;
+  const { name, description, schema, strict } = format;
+  return { type: 'json_schema', json_schema: { name, description, schema, strict } };
+}
+
+/**
+ * Converts the conversation items into an OpenAI chat request.
+ * Function calls join the preceding assistant message; reasoning
+ * items are dropped since Gemini can't take thoughts back as input.
+ */
+function toChatRequest(body: ResponsesRequest, items: ResponsesItem[]): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+  if (body.instructions) {
+    messages.push({ role: 'system', content: body.instructions });
+  }
+
+  for (const item of items) {
+    if (item.type === 'reasoning') continue;
+
+    if (item.type === 'function_call') {
+      const call = {
+        id: item.call_id,
+        type: 'function' as const,
+        function: { name: item.name, arguments: item.arguments },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === 'assistant') {
+        last.tool_calls = [...(last.tool_calls ?? []), call];
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+      }
+    } else if (item.type === 'function_call_output') {
+      messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+    } else if (item.role === 'assistant') {
+      const content = toContent(item.content);
+      messages.push({
+        role: 'assistant',
+        content: typeof content === 'string'
+          ? content
+          : content.map((c) => (c.type === 'text' ? c.text : '')).join(''),
+      });
+    } else {
+      messages.push({ role: item.role === 'developer' ? 'system' : item.role, content: toContent(item.content) });
+    }
+  }
+
+  return {
+    // OpenAI model names mean "whatever Gemini model is configured"
+    model: resolveModel(body.model),
+    messages,
+    stream: body.stream,
+    max_tokens: body.max_output_tokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    tools: body.tools?.map(({ name, description, parameters }) => ({
+      type: 'function',
+      function: { name, description, parameters },
+    })),
+    tool_choice: typeof body.tool_choice === 'object'
+      ? { type: 'function', function: { name: body.tool_choice.name } }
+      : body.tool_choice,
+    parallel_tool_calls: body.parallel_tool_calls,
+    response_format: toResponseFormat(body.text?.format),
+    // Thoughts become reasoning items only when the client asks for reasoning
+    reasoning_effort: body.reasoning?.effort,
+    include_reasoning: body.reasoning !== undefined,
+    reasoning_output: body.reasoning ? 'separate' : 'hidden',
+    user: body.user,
+  };
+}
+
+/* ================================================================== */
+/* Response builder: Gemini ➞ Responses output items and SSE events    */
+/* ================================================================== */
+
+function mapUsage(usage: GeminiUsageMetadata | undefined): ResponsesUsage {
+  const inputTokens = usage?.promptTokenCount ?? 0;
+  const reasoningTokens = usage?.thoughtsTokenCount ?? 0;
+  const outputTokens = (usage?.candidatesTokenCount ?? 0) + reasoningTokens;
+  return {
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens,
+    output_tokens_details: { reasoning_tokens: reasoningTokens },
+  };
+}
+
+/**
+ * Builds a response from Gemini chunks while producing the typed
+ * `response.*` event sequence. Non-streaming requests feed it the
+ * whole response as one chunk and ignore the events.
+ */
+interface ResponseBuilder {
+  /** Returns response.created and response.in_progress. */
+  start: () => ResponsesStreamEvent[];
+  /** Maps a Gemini chunk to output item events. */
+  mapChunk: (chunk: GeminiStreamChunk) => ResponsesStreamEvent[];
+  /** Closes the open item and returns response.completed or response.incomplete. */
+  finish: () => ResponsesStreamEvent[];
+  /** Closes the open item and returns response.failed. */
+  fail: (code: string, message: string) => ResponsesStreamEvent[];
+  /** The message text produced so far. */
+  text: () => string;
+  /** The response object, complete once finish() or fail() ran. */
+  response: ResponsesResponse;
+}
+
+function createResponseBuilder(response: ResponsesResponse): ResponseBuilder {
+  let sequence = 0;
+  let open: MessageItem | ReasoningItem | null = null;
+  let openPart: { text: string } = { text: '' }; // text part of the open item
+  let hasFunctionCall = false;
+  let finishReason: string | undefined;
+  let usage: GeminiUsageMetadata | undefined;
+
+  function event(type: string, fields: Record<string, unknown> = {}): ResponsesStreamEvent {
+    return { type, sequence_number: sequence++, ...fields };
+  }
+
+  function outputIndex(): number {
+    return response.output.length - 1;
+  }
+
+  function closeItem(events: ResponsesStreamEvent[]) {
+    if (!open) return;
+    const ids = { item_id: open.id, output_index: outputIndex() };
+
+    if (open.type === 'reasoning') {
+      events.push(
+        event('response.reasoning_summary_text.done', { ...ids, summary_index: 0, text: openPart.text }),
+        event('response.reasoning_summary_part.done', { ...ids, summary_index: 0, part: openPart }),
+      );
+    } else {
+      events.push(
+        event('response.output_text.done', { ...ids, content_index: 0, text: openPart.text }),
+        event('response.content_part.done', { ...ids, content_index: 0, part: openPart }),
+      );
+      open.status = 'completed';
+    }
+
+    events.push(event('response.output_item.done', { output_index: outputIndex(), item: open }));
+    open = null;
+  }
+
+  /** Appends text to the open item of the given kind, opening one if needed. */
+  function appendText(kind: 'message' | 'reasoning', text: string, events: ResponsesStreamEvent[]) {
+    if (open?.type !== kind) {
+      closeItem(events);
+      if (kind === 'reasoning') {
+        open = { type: 'reasoning', id: newId('rs'), summary: [] };
+      } else {
+        open = { type: 'message', id: newId('msg'), role: 'assistant', status: 'in_progress', content: [] };
+      }
+      response.output.push(open);
+      events.push(event('response.output_item.added', { output_index: outputIndex(), item: open }));
+
+      const ids = { item_id: open.id, output_index: outputIndex() };
+      if (open.type === 'reasoning') {
+        const part = { type: 'summary_text' as const, text: '' };
+        open.summary.push(part);
+        openPart = part;
+        events.push(event('response.reasoning_summary_part.added', { ...ids, summary_index: 0, part }));
+      } else {
+        const part = { type: 'output_text' as const, text: '', annotations: [] };
+        open.content = [part];
+        openPart = part;
+        events.push(event('response.content_part.added', { ...ids, content_index: 0, part }));
+      }
+    }
+
+    openPart.text += text;
+    const ids = { item_id: open.id, output_index: outputIndex() };
+    if (open.type === 'reasoning') {
+      events.push(event('response.reasoning_summary_text.delta', { ...ids, summary_index: 0, delta: text }));
+    } else {
+      events.push(event('response.output_text.delta', { ...ids, content_index: 0, delta: text }));
+    }
+  }
+
+  function start(): ResponsesStreamEvent[] {
+    return [
+      event('response.created', { response }),
+      event('response.in_progress', { response }),
+    ];
+  }
+
+  function mapChunk(chunk: GeminiStreamChunk): ResponsesStreamEvent[] {
+    const events: ResponsesStreamEvent[] = [];
+    const candidate = chunk?.candidates?.[0];
+    finishReason = candidate?.finishReason ?? finishReason;
+    usage = chunk?.usageMetadata ?? usage;
+    if (chunk?.promptFeedback?.blockReason) finishReason = 'BLOCKLIST';
+
+    for (const part of candidate?.content?.parts ?? []) {
+      if (part.functionCall) {
+        closeItem(events);
+        // Without parallel tool calls only the first call is kept
+        if (hasFunctionCall && response.parallel_tool_calls === false) continue;
+        hasFunctionCall = true;
+
+        const item: FunctionCallItem = {
+          type: 'function_call',
+          id: newId('fc'),
+          call_id: part.functionCall.id ?? newId('call'),
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args ?? {}),
+          status: 'completed',
+        };
+        response.output.push(item);
+        const ids = { item_id: item.id, output_index: outputIndex() };
+        events.push(
+          event('response.output_item.added', {
+            output_index: outputIndex(),
+            item: { ...item, arguments: '', status: 'in_progress' },
+          }),
+          event('response.function_call_arguments.delta', { ...ids, delta: item.arguments }),
+          event('response.function_call_arguments.done', { ...ids, arguments: item.arguments }),
+          event('response.output_item.done', { output_index: outputIndex(), item }),
+        );
+      } else if (part.thought === true) {
+        if (part.text) appendText('reasoning', part.text, events);
+      } else if (typeof part.text === 'string' && part.text) {
+        appendText('message', part.text, events);
+      }
+    }
+
+    return events;
+  }
+
+  function finish(): ResponsesStreamEvent[] {
+    const events: ResponsesStreamEvent[] = [];
+    closeItem(events);
+
+    const reason = mapFinishReason(finishReason, hasFunctionCall);
+    if (reason === 'length' || reason === 'content_filter') {
+      response.status = 'incomplete';
+      response.incomplete_details = { reason: reason === 'length' ? 'max_output_tokens' : 'content_filter' };
+    } else {
+      response.status = 'completed';
+    }
+    response.usage = mapUsage(usage);
+
+    events.push(event(`response.${response.status}`, { response }));
+    return events;
+  }
+
+  function fail(code: string, message: string): ResponsesStreamEvent[] {
+    const events: ResponsesStreamEvent[] = [];
+    closeItem(events);
+    response.status = 'failed';
+    response.error = { code, message };
+    response.usage = mapUsage(usage);
+    events.push(event('response.failed', { response }));
+    return events;
+  }
+
+  function text(): string {
+    return response.output
+      .flatMap((item) => (item.type === 'message' && Array.isArray(item.content) ? item.content : []))
+      .map((part) => ('text' in part ? part.text : ''))
+      .join('');
+  }
+
+  return { start, mapChunk, finish, fail, text, response };
+}
+
+/**
+ * Checks the message text against a strict json_schema format.
+ * Responses that call functions have no final answer to check.
+ */
+function checkOutput(response: ResponsesResponse, text: string, format: OpenAIResponseFormat | undefined) {
+  if (response.output.some((item) => item.type === 'function_call')) {
+    return validateStructuredOutput('', undefined);
+  }
+  return validateStructuredOutput(text, format);
+}
+
+function writeEvent(res: http.ServerResponse, event: ResponsesStreamEvent) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/* ================================================================== */
+/* Handlers                                                            */
+/* ================================================================== */
+
+/**
+ * Handles POST /v1/responses.
+ */
+export async function handleCreateResponse(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+) {
+  let rawBody: unknown;
+  try {
+    rawBody = await readJSON(req);
+  } catch {
+    console.log('HTTP 400: malformed JSON');
+    sendError(res, 400, createError('Invalid JSON in request body', 'invalid_request_error', 'invalid_json'));
+    return;
+  }
+
+  const validation = validateResponsesRequest(rawBody);
+  if (!validation.valid) {
+    console.log('HTTP 400: validation failed');
+    sendError(res, 400, validation.error);
+    return;
+  }
+  const body = validation.value;
+
+  try {
+    // Continue from the stored conversation when chaining turns
+    let history: ResponsesItem[] = [];
+    if (body.previous_response_id) {
+      const previous = await loadResponse(body.previous_response_id, context.key);
+      if (!previous) {
+        console.log('HTTP 404: previous response not found');
+        sendError(res, 404, createError(
+          `Previous response with id '${body.previous_response_id}' not found.`,
+          'invalid_request_error',
+          'previous_response_not_found',
+        ));
+        return;
+      }
+      history = [...previous.input, ...previous.response.output];
+    }
+
+    const input: ResponsesItem[] = typeof body.input === 'string'
+      ? [{ type: 'message', role: 'user', content: body.input }]
+      : body.input;
+    history.push(...input);
+
+    const chatRequest = toChatRequest(body, history);
+    const chatValidation = validateChatRequest(chatRequest);
+    if (!chatValidation.valid) {
+      console.log('HTTP 400: validation failed');
+      sendError(res, 400, chatValidation.error);
+      return;
+    }
+
+    const denied = applyKeyPolicy(chatRequest, context.key)
+      ?? checkRateLimit(res, context, chatRequest.model);
+    if (denied) {
+      console.log(`HTTP ${denied.status}: ${denied.error.error.message}`);
+      sendError(res, denied.status, denied.error);
+      return;
+    }
+
+    const { geminiReq } = await mapRequest(chatRequest, context);
+
+    const builder = createResponseBuilder({
+      id: newId('resp'),
+      object: 'response',
+      created_at: Math.floor(Date.now() / 1000),
+      status: 'in_progress',
+      model: chatRequest.model ?? getModel(),
+      output: [],
+      instructions: body.instructions ?? null,
+      previous_response_id: body.previous_response_id ?? null,
+      tools: body.tools ?? [],
+      tool_choice: body.tool_choice ?? 'auto',
+      parallel_tool_calls: body.parallel_tool_calls ?? true,
+      text: { format: body.text?.format ?? { type: 'text' } },
+      metadata: body.metadata ?? {},
+      incomplete_details: null,
+      error: null,
+      usage: null,
+    });
+    const { response } = builder;
+
+    if (body.stream) {
+      // Opened before the headers so upstream failures still get an HTTP status
+      const stream = await sendChatStream(geminiReq, context);
+      response.model = context.servedModel ?? response.model;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+
+      console.log('➜ sending HTTP 200 streamed Responses response');
+
+      builder.start().forEach((e) => writeEvent(res, e));
+      try {
+        for await (const chunk of stream) {
+          builder.mapChunk(chunk).forEach((e) => writeEvent(res, e));
+        }
+
+        // Strict structured output can only be checked once complete
+        const outputCheck = checkOutput(response, builder.text(), chatRequest.response_format);
+        const closing = outputCheck.valid
+          ? builder.finish()
+          : builder.fail('invalid_model_output', outputCheck.error.error.message);
+        closing.forEach((e) => writeEvent(res, e));
+      } catch (err: unknown) {
+        if (context.signal?.aborted) return;
+
+        const { error } = classifyError(err).error;
+        console.error('Responses stream failed ➜', err);
+        builder.fail(error.code ?? 'server_error', error.message).forEach((e) => writeEvent(res, e));
+      }
+      res.end();
+
+      console.log('➜ done sending streamed Responses response');
+    } else {
+      const gResp = await sendChat(geminiReq, context);
+      response.model = context.servedModel ?? response.model;
+
+      const failure = mapResponseError(gResp);
+      if (failure) {
+        console.log(`HTTP ${failure.status}: ${failure.error.error.message}`);
+        sendError(res, failure.status, failure.error);
+        return;
+      }
+
+      builder.mapChunk(gResp);
+      builder.finish();
+
+      // With a strict json_schema, don't pass on output that doesn't conform
+      const outputCheck = checkOutput(response, builder.text(), chatRequest.response_format);
+      if (!outputCheck.valid) {
+        console.log('HTTP 502: model output failed schema check');
+        sendError(res, 502, outputCheck.error);
+        return;
+      }
+
+      sendJSON(res, 200, response);
+
+      console.log('✅ Replied HTTP 200 Responses response', response);
+    }
+
+    // `store` defaults to true, as in the OpenAI API
+    if (body.store !== false) {
+      await responseStore.put(response.id, { response, input: history, owner: context.key?.name });
+    }
+  } catch (err: unknown) {
+    if (context.signal?.aborted) return;
+
+    const failure = classifyError(err);
+    console.error(`HTTP ${failure.status} Proxy error ➜`, err);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendError(res, failure.status, failure.error);
+    }
+  }
+}
+
+function sendNotFound(res: http.ServerResponse, id: string) {
+  sendError(res, 404, createError(
+    `Response with id '${id}' not found.`,
+    'invalid_request_error',
+    'not_found',
+  ));
+}
+
+/**
+ * Handles GET /v1/responses/{id}.
+ */
+export async function handleGetResponse(res: http.ServerResponse, id: string, key: ApiKey | undefined) {
+  try {
+    const stored = await loadResponse(id, key);
+    if (!stored) {
+      sendNotFound(res, id);
+      return;
+    }
+    sendJSON(res, 200, stored.response);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('HTTP 500 Store error ➜', err);
+    sendError(res, 500, createError(message, 'api_error'));
+  }
+}
+
+/**
+ * Handles DELETE /v1/responses/{id}.
+ */
+export async function handleDeleteResponse(res: http.ServerResponse, id: string, key: ApiKey | undefined) {
+  try {
+    if (!await loadResponse(id, key) || !await responseStore.delete(id)) {
+      sendNotFound(res, id);
+      return;
+    }
+    sendJSON(res, 200, { id, object: 'response', deleted: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('HTTP 500 Store error ➜', err);
+    sendError(res, 500, createError(message, 'api_error'));
+  }
+}
@@ -0,0 +1,462 @@
+/* ------------------------------------------------------------------ */
+/*  schema.ts – JSON Schema ➞ Gemini Schema conversion and checking    */
+/* ------------------------------------------------------------------ */
+
+/**
+ * A JSON Schema object as sent by OpenAI clients.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Thrown when a JSON Schema uses a construct Gemini's OpenAPI subset
+ * can't express. `pointer` is the JSON pointer of the offending schema.
+ */
+export class SchemaConversionError extends Error {
+  constructor(message: string, readonly pointer: string) {
+    super(`${message} at ${pointer || '/'}`);
+    this.name = 'SchemaConversionError';
+  }
+}
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// JSON Schema type names ➞ Gemini Type enum values
+const GEMINI_TYPES: Record<string, string> = {
+  string: 'STRING',
+  number: 'NUMBER',
+  integer: 'INTEGER',
+  boolean: 'BOOLEAN',
+  array: 'ARRAY',
+  object: 'OBJECT',
+};
+
+// Keywords copied through unchanged (Gemini uses the same names)
+const PASSTHROUGH_KEYWORDS = [
+  'description',
+  'title',
+  'format',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+  'minProperties',
+  'maxProperties',
+  'default',
+];
+
+// Keywords that change what a schema accepts and have no Gemini equivalent.
+// Everything else Gemini doesn't know ($schema, examples, …) is dropped.
+const UNSUPPORTED_KEYWORDS = [
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'uniqueItems',
+  'not',
+  'if',
+  'then',
+  'else',
+  'patternProperties',
+  'dependentRequired',
+  'dependentSchemas',
+  'prefixItems',
+  'contains',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+  '$dynamicRef',
+];
+
+// Unsupported keywords that constrain nothing when false (draft-4 style
+// boolean `exclusiveMinimum`, `uniqueItems: false`)
+const INERT_WHEN_FALSE = ['exclusiveMinimum', 'exclusiveMaximum', 'uniqueItems'];
+
+/* ── Helpers ───────────────────────────────────────────────────────── */
+
+/**
+ * Appends a token to a JSON pointer, escaping per RFC 6901.
+ */
+function childPointer(pointer: string, token: string | number): string {
+  return `${pointer}/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/**
+ * Returns a shallow copy of a schema without one keyword.
+ */
+function without(schema: JsonSchema, keyword: string): JsonSchema {
+  const copy = { ...schema };
+  delete copy[keyword];
+  return copy;
+}
+
+/**
+ * Compiles a `pattern` keyword as a Unicode regular expression, or
+ * returns undefined if it isn't a valid one.
+ */
+function compilePattern(pattern: unknown): RegExp | undefined {
+  if (typeof pattern !== 'string') return undefined;
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return undefined;
+  }
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolves a local `$ref` (`#/$defs/Name`, `#/definitions/Name`, or any
+ * other pointer into the root document).
+ */
+function resolveRef(root: JsonSchema, ref: string, pointer: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new SchemaConversionError(`External $ref "${ref}" is not supported`, pointer);
+  }
+
+  let target: unknown = root;
+  for (const raw of ref.slice(1).split('/').filter(Boolean)) {
+    const token = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isSchemaObject(target) ? target[token] : undefined;
+  }
+
+  if (!isSchemaObject(target)) {
+    throw new SchemaConversionError(`Unresolvable $ref "${ref}"`, pointer);
+  }
+  return target;
+}
+
+/**
+ * Removes `{type: "null"}` branches from a union, reporting whether
+ * one was present so the result can be marked nullable.
+ */
+function splitNull(branches: unknown[]): { rest: unknown[]; nullable: boolean } {
+  const rest = branches.filter((b) => !(isSchemaObject(b) && b.type === 'null'));
+  return { rest, nullable: rest.length !== branches.length };
+}
+
+/* ── Conversion ────────────────────────────────────────────────────── */
+
+/**
+ * Converts one schema node. `refStack` tracks the `$ref`s being inlined
+ * so recursive schemas are reported instead of looping forever.
+ */
+function convert(
+  schema: unknown,
+  root: JsonSchema,
+  pointer: string,
+  refStack: string[],
+): JsonSchema {
+  // `true` / `{}` accept anything; Gemini needs a type, so leave it open
+  if (schema === true || (isSchemaObject(schema) && Object.keys(schema).length === 0)) {
+    return {};
+  }
+  if (!isSchemaObject(schema)) {
+    throw new SchemaConversionError('Schema must be an object', pointer);
+  }
+
+  for (const keyword of UNSUPPORTED_KEYWORDS) {
+    if (keyword in schema && !(schema[keyword] === false && INERT_WHEN_FALSE.includes(keyword))) {
+      throw new SchemaConversionError(`Unsupported JSON Schema keyword "${keyword}"`, pointer);
+    }
+  }
+
+  /* ---- $ref inlining --------------------------------------------- */
+  if (typeof schema.$ref === 'string') {
+    const ref = schema.$ref;
+    if (refStack.includes(ref)) {
+      throw new SchemaConversionError(`Recursive $ref "${ref}" cannot be inlined`, pointer);
+    }
+    const resolved = convert(resolveRef(root, ref, pointer), root, pointer, [...refStack, ref]);
+    // Sibling keywords (usually a description) override the referenced schema
+    return { ...resolved, ...convert(without(schema, '$ref'), root, pointer, refStack) };
+  }
+
+  /* ---- unions ---------------------------------------------------- */
+  const unionKey = Array.isArray(schema.anyOf) ? 'anyOf'
+    : Array.isArray(schema.oneOf) ? 'oneOf'
+      : undefined;
+  if (unionKey) {
+    const { rest, nullable } = splitNull(schema[unionKey] as unknown[]);
+    if (rest.length === 0) {
+      throw new SchemaConversionError('A schema that only allows null is not supported', pointer);
+    }
+    const base = convert(without(schema, unionKey), root, pointer, refStack);
+    const converted = rest.map((b, i) =>
+      convert(b, root, childPointer(childPointer(pointer, unionKey), i), refStack));
+
+    // A single real branch (e.g. `anyOf: [X, null]`) is just a nullable X
+    const union = converted.length === 1 ? converted[0] : { anyOf: converted };
+    return { ...union, ...base, ...(nullable ? { nullable: true } : {}) };
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    return mergeAllOf(schema.allOf, without(schema, 'allOf'), root, pointer, refStack);
+  }
+
+  /* ---- type ------------------------------------------------------ */
+  const out: JsonSchema = {};
+  let type = schema.type;
+
+  if (Array.isArray(type)) {
+    const { rest, nullable } = splitNull(type.map((t) => ({ type: t })));
+    if (nullable) out.nullable = true;
+    if (rest.length > 1) {
+      // Several real types become a union of otherwise-identical schemas
+      const siblings = without(schema, 'type');
+      const variants = rest.map((t) =>
+        convert({ ...siblings, ...(t as JsonSchema) }, root, pointer, refStack));
+      return { anyOf: variants, ...out };
+    }
+    type = (rest[0] as JsonSchema | undefined)?.type;
+  }
+
+  if (type === 'null') {
+    throw new SchemaConversionError('A schema that only allows null is not supported', pointer);
+  }
+
+  if (type !== undefined) {
+    const geminiType = typeof type === 'string' ? GEMINI_TYPES[type] : undefined;
+    if (!geminiType) {
+      throw new SchemaConversionError(`Unknown type ${JSON.stringify(type)}`, pointer);
+    }
+    out.type = geminiType;
+  }
+
+  if (schema.nullable === true) out.nullable = true;
+
+  for (const keyword of PASSTHROUGH_KEYWORDS) {
+    if (schema[keyword] !== undefined) out[keyword] = schema[keyword];
+  }
+
+  // Compiled as the output check will, so a bad pattern is the client's error
+  if (schema.pattern !== undefined && !compilePattern(schema.pattern)) {
+    throw new SchemaConversionError(`Invalid pattern ${JSON.stringify(schema.pattern)}`, pointer);
+  }
+
+  /* ---- enum / const ---------------------------------------------- */
+  const values = schema.const !== undefined ? [schema.const] : schema.enum;
+  if (values !== undefined) {
+    if (!Array.isArray(values)) {
+      throw new SchemaConversionError('enum must be an array', pointer);
+    }
+    const nonNull = values.filter((v) => v !== null);
+    if (nonNull.length !== values.length) out.nullable = true;
+    if (!nonNull.every((v) => typeof v === 'string')) {
+      throw new SchemaConversionError('Gemini only supports string enum values', pointer);
+    }
+    out.type ??= 'STRING';
+    out.enum = nonNull;
+  }
+
+  /* ---- objects --------------------------------------------------- */
+  if (isSchemaObject(schema.properties)) {
+    const properties: Record<string, JsonSchema> = {};
+    const propsPointer = childPointer(pointer, 'properties');
+    for (const [name, prop] of Object.entries(schema.properties)) {
+      properties[name] = convert(prop, root, childPointer(propsPointer, name), refStack);
+    }
+    out.type ??= 'OBJECT';
+    out.properties = properties;
+    // Keep the declared order; Gemini otherwise sorts keys alphabetically
+    out.propertyOrdering = Object.keys(properties);
+  }
+
+  if (Array.isArray(schema.required)) {
+    out.required = schema.required;
+  }
+
+  // additionalProperties has no Gemini equivalent; dropping it only
+  // loosens the schema, so it is stripped rather than rejected.
+
+  /* ---- arrays ---------------------------------------------------- */
+  if (schema.items !== undefined) {
+    if (Array.isArray(schema.items)) {
+      throw new SchemaConversionError('Tuple-style "items" arrays are not supported', pointer);
+    }
+    out.type ??= 'ARRAY';
+    out.items = convert(schema.items, root, childPointer(pointer, 'items'), refStack);
+  }
+
+  return out;
+}
+
+/**
+ * Merges `allOf` branches into one schema. Only object branches (and
+ * plain annotations) can be merged; anything else is rejected.
+ */
+function mergeAllOf(
+  branches: unknown,
+  siblings: JsonSchema,
+  root: JsonSchema,
+  pointer: string,
+  refStack: string[],
+): JsonSchema {
+  const merged = convert(siblings, root, pointer, refStack);
+  const properties: Record<string, JsonSchema> = { ...(merged.properties as Record<string, JsonSchema>) };
+  const required = new Set<string>((merged.required as string[] | undefined) ?? []);
+
+  (branches as unknown[]).forEach((branch, i) => {
+    const branchPointer = childPointer(childPointer(pointer, 'allOf'), i);
+    const converted = convert(branch, root, branchPointer, refStack);
+    if (converted.type !== undefined && converted.type !== 'OBJECT') {
+      throw new SchemaConversionError('allOf is only supported for object schemas', branchPointer);
+    }
+    Object.assign(properties, converted.properties ?? {});
+    for (const name of (converted.required as string[] | undefined) ?? []) required.add(name);
+    if (converted.description && !merged.description) merged.description = converted.description;
+  });
+
+  return {
+    ...merged,
+    type: 'OBJECT',
+    properties,
+    propertyOrdering: Object.keys(properties),
+    ...(required.size > 0 ? { required: Array.from(required) } : {}),
+  };
+}
+
+/**
+ * Converts a JSON Schema into the OpenAPI subset Gemini accepts as a
+ * `Schema`: `$ref`/`$defs` are inlined, `anyOf`/`oneOf` with a null branch
+ * and `["T", "null"]` type arrays become `nullable`, and unsupported
+ * annotations are dropped.
+ *
+ * @throws SchemaConversionError if the schema uses a construct Gemini
+ *   can't express
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  return convert(schema, schema, '', []);
+}
+
+/* ── Output checking ───────────────────────────────────────────────── */
+
+/**
+ * Returns the JSON Schema type name of a value.
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Recursively checks a value, collecting `pointer: problem` messages.
+ */
+function check(
+  value: unknown,
+  schema: unknown,
+  root: JsonSchema,
+  pointer: string,
+  errors: string[],
+): void {
+  if (!isSchemaObject(schema)) return;
+  const at = pointer || '/';
+
+  if (typeof schema.$ref === 'string') {
+    try {
+      check(value, resolveRef(root, schema.$ref, pointer), root, pointer, errors);
+    } catch {
+      errors.push(`${at}: unresolvable $ref "${schema.$ref}"`);
+    }
+  }
+
+  if (value === null && schema.nullable === true) return;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, String(t)))) {
+      errors.push(`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => JSON.stringify(v) === JSON.stringify(value))) {
+    errors.push(`${at}: value is not one of the allowed enum values`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${at}: value does not equal const`);
+  }
+
+  for (const key of ['anyOf', 'oneOf'] as const) {
+    const branches = schema[key];
+    if (!Array.isArray(branches)) continue;
+    const matching = branches.filter((b) => {
+      const branchErrors: string[] = [];
+      check(value, b, root, pointer, branchErrors);
+      return branchErrors.length === 0;
+    }).length;
+    if (matching === 0 || (key === 'oneOf' && matching > 1)) {
+      errors.push(`${at}: value must match ${key === 'oneOf' ? 'exactly one' : 'at least one'} ${key} branch`);
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const branch of schema.allOf) check(value, branch, root, pointer, errors);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${at}: below minimum ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${at}: above maximum ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) errors.push(`${at}: shorter than ${schema.minLength}`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) errors.push(`${at}: longer than ${schema.maxLength}`);
+    if (schema.pattern !== undefined) {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) {
+        errors.push(`${at}: invalid pattern ${JSON.stringify(schema.pattern)}`);
+      } else if (!pattern.test(value)) {
+        errors.push(`${at}: does not match pattern ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) errors.push(`${at}: fewer than ${schema.minItems} items`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) errors.push(`${at}: more than ${schema.maxItems} items`);
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => check(item, schema.items, root, childPointer(pointer, i), errors));
+    }
+  }
+
+  if (isSchemaObject(value)) {
+    const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(name in value)) errors.push(`${at}: missing required property "${name}"`);
+    }
+    for (const [name, prop] of Object.entries(value)) {
+      const propPointer = childPointer(pointer, name);
+      if (name in properties) {
+        check(prop, properties[name], root, propPointer, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propPointer}: property is not allowed`);
+      } else if (isSchemaObject(schema.additionalProperties)) {
+        check(prop, schema.additionalProperties, root, propPointer, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Checks a parsed JSON value against a JSON Schema.
+ * Covers the keywords `toGeminiSchema` understands, plus
+ * `additionalProperties`, which Gemini itself can't enforce.
+ *
+ * @returns A list of problems, each prefixed with its JSON pointer;
+ *   empty if the value conforms
+ */
+export function checkAgainstSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  check(value, schema, schema, '', errors);
+  return errors;
+}
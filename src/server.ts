@@ -1,8 +1,31 @@
 import http from 'http';
-import { sendChat, sendChatStream, listModels } from './chatwrapper';
-import { mapRequest, mapResponse, createStreamMapper, createFinalStreamChunk } from './mapper';
-import { validateChatRequest, createError } from './validation';
-import type { OpenAIChatRequest, OpenAIErrorResponse } from './types';
+import { sendChat, sendChatStream, listModels, getEmbeddingModel } from './chatwrapper';
+import { mapRequest, mapResponse, mapResponseError, createStreamMapper, candidateText } from './mapper';
+import { createEmbeddings } from './embeddings';
+import { handleCompletions } from './completions';
+import { handleMessages, handleCountTokens } from './anthropic';
+import { handleCreateResponse, handleGetResponse, handleDeleteResponse } from './responses';
+import { handleCreateFile, handleGetFile, handleDeleteFile, handleGetFileContent } from './files';
+import { handleCreateBatch, handleGetBatch, handleCancelBatch, resumeBatches } from './batches';
+import {
+  handleOllamaChat,
+  handleOllamaGenerate,
+  handleOllamaShow,
+  handleOllamaTags,
+  handleOllamaVersion,
+} from './ollama';
+import { authenticate, applyKeyPolicy, checkModelPolicy, isModelAllowed, PUBLIC_HEALTH } from './auth';
+import { checkRateLimit } from './ratelimit';
+import { formatQueueMetrics, resolvePriority } from './limiter';
+import { readJSON, sendError, sendStreamError } from './http';
+import { classifyError } from './errors';
+import {
+  validateChatRequest,
+  validateEmbeddingRequest,
+  validateStructuredOutput,
+  createError,
+} from './validation';
+import type { OpenAIChatRequest, RequestContext } from './types';
 
 /* ── basic config ─────────────────────────────────────────────────── */
 const PORT = Number(process.env.PORT ?? 11434);
@@ -11,11 +34,11 @@ const PORT = Number(process.env.PORT ?? 11434);
  * CORS configuration via environment variables:
  * - CORS_ORIGIN: Allowed origin(s). Defaults to '*'. Use comma-separated list for multiple.
  * - CORS_HEADERS: Allowed headers. Defaults to '*'.
- * - CORS_METHODS: Allowed methods. Defaults to 'GET,POST,OPTIONS'.
+ * - CORS_METHODS: Allowed methods. Defaults to 'GET,POST,DELETE,OPTIONS'.
  */
 const CORS_ORIGIN = process.env.CORS_ORIGIN ?? '*';
 const CORS_HEADERS = process.env.CORS_HEADERS ?? '*';
-const CORS_METHODS = process.env.CORS_METHODS ?? 'GET,POST,OPTIONS';
+const CORS_METHODS = process.env.CORS_METHODS ?? 'GET,POST,DELETE,OPTIONS';
 
 /* ── CORS helper ──────────────────────────────────────────────────── */
 function allowCors(res: http.ServerResponse, reqOrigin?: string) {
@@ -33,31 +56,6 @@ function allowCors(res: http.ServerResponse, reqOrigin?: string) {
   res.setHeader('Access-Control-Allow-Methods', CORS_METHODS);
 }
 
-/* ── JSON body helper ─────────────────────────────────────────────── */
-function readJSON(req: http.IncomingMessage): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    let data = '';
-    req.on('data', (c) => (data += c));
-    req.on('end', () => {
-      try {
-        resolve(data ? JSON.parse(data) : {});
-      } catch {
-        reject(new Error('Invalid JSON in request body'));
-      }
-    });
-  });
-}
-
-/* ── Error response helper ────────────────────────────────────────── */
-function sendError(
-  res: http.ServerResponse,
-  statusCode: number,
-  error: OpenAIErrorResponse,
-) {
-  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
-  res.end(JSON.stringify(error));
-}
-
 /* ── server ───────────────────────────────────────────────────────── */
 http
   .createServer(async (req, res) => {
@@ -74,16 +72,66 @@ http
     }
 
     /* -------- /health ---------- */
+    if (req.url === '/health' && PUBLIC_HEALTH) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok' }));
+      return;
+    }
+
+    /* -------- authentication ---------- */
+    const auth = authenticate(req);
+    if (!auth.valid) {
+      console.log('HTTP 401: authentication failed');
+      sendError(res, 401, auth.error);
+      return;
+    }
+    const key = auth.value;
+
+    // Closing before the response is finished means the client went away;
+    // aborting cancels image fetches and generation still in progress
+    const disconnect = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) disconnect.abort();
+    });
+
+    const priorityHeader = req.headers['x-bridge-priority'];
+    const cacheControl = req.headers['cache-control']?.toLowerCase() ?? '';
+    const context: RequestContext = {
+      key,
+      signal: disconnect.signal,
+      priority: resolvePriority(key, typeof priorityHeader === 'string' ? priorityHeader : undefined),
+      onFallback: (model) => {
+        if (!res.headersSent) res.setHeader('x-bridge-fallback', model);
+      },
+      onQueued: (position, waitMs) => {
+        if (res.headersSent) return;
+        res.setHeader('x-bridge-queue-position', String(position));
+        res.setHeader('x-bridge-queue-wait-ms', String(waitMs));
+      },
+      cacheControl: cacheControl.includes('no-store') ? 'no-store'
+        : cacheControl.includes('no-cache') ? 'no-cache' : undefined,
+      onCacheLookup: (hit) => {
+        if (!res.headersSent) res.setHeader('x-bridge-cache', hit ? 'hit' : 'miss');
+      },
+    };
+
     if (req.url === '/health') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ status: 'ok' }));
       return;
     }
 
+    /* -------- /metrics ---------- */
+    if (req.url === '/metrics' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      res.end(formatQueueMetrics());
+      return;
+    }
+
     /* -------- /v1/models ---------- */
     if (req.url === '/v1/models') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ data: listModels() }));
+      res.end(JSON.stringify({ data: listModels().filter((m) => isModelAllowed(key, m.id)) }));
       return;
     }
 
@@ -114,12 +162,21 @@ http
       // Cast to full request type after validation
       const body = rawBody as OpenAIChatRequest;
 
+      const denied = applyKeyPolicy(body, key) ?? checkRateLimit(res, context, body.model);
+      if (denied) {
+        console.log(`HTTP ${denied.status}: ${denied.error.error.message}`);
+        sendError(res, denied.status, denied.error);
+        return;
+      }
+
       try {
-        // geminiReq contains the properly formatted request including tools for grounding
-        // The ToolRegistry is returned for potential future custom function handling
-        const { geminiReq } = await mapRequest(body);
+        // geminiReq contains the properly formatted request including
+        // function declarations and tools for grounding
+        const { geminiReq, responseOptions } = await mapRequest(body, context);
 
         if (body.stream) {
+          // Opened before the headers so upstream failures still get an HTTP status
+          const stream = await sendChatStream(geminiReq, context);
           res.writeHead(200, {
             'Content-Type': 'text/event-stream',
             'Cache-Control': 'no-cache',
@@ -128,40 +185,232 @@ http
 
           console.log('➜ sending HTTP 200 streamed response');
 
-          // Use stateful mapper to track think tag state across chunks
-          const mapper = createStreamMapper();
+          // Use stateful mapper to track think tag and tool call state across chunks
+          const mapper = createStreamMapper(responseOptions);
 
-          for await (const chunk of sendChatStream(geminiReq)) {
-            const mapped = mapper.mapChunk(chunk);
-            res.write(`data: ${JSON.stringify(mapped)}\n\n`);
+          for await (const chunk of stream) {
+            for (const mapped of mapper.mapChunk(chunk)) {
+              res.write(`data: ${JSON.stringify(mapped)}\n\n`);
+            }
           }
 
-          // Emit closing think tag if stream ended while still in thinking mode
-          const finalChunk = createFinalStreamChunk(mapper.isThinking());
-          if (finalChunk) {
-            res.write(`data: ${JSON.stringify(finalChunk)}\n\n`);
+          // Strict structured output can only be checked once the answer is complete;
+          // a mismatch ends the stream with an error event instead of a finish reason.
+          if (!mapper.hasToolCalls()) {
+            const outputCheck = validateStructuredOutput(mapper.text(), body.response_format);
+            if (!outputCheck.valid) {
+              console.error('Streamed output failed schema check:', outputCheck.error.error.message);
+              sendStreamError(res, outputCheck.error);
+              return;
+            }
           }
 
+          // Close any open think tag and report the finish reason
+          res.write(`data: ${JSON.stringify(mapper.finish())}\n\n`);
+
           res.end('data: [DONE]\n\n');
 
           console.log('➜ done sending streamed response');
         } else {
-          const gResp = await sendChat(geminiReq);
-          const mapped = mapResponse(gResp);
+          const gResp = await sendChat(geminiReq, context);
+
+          // Blocked prompts and empty responses become OpenAI errors
+          const failure = mapResponseError(gResp);
+          if (failure) {
+            console.log(`HTTP ${failure.status}: ${failure.error.error.message}`);
+            sendError(res, failure.status, failure.error);
+            return;
+          }
+
+          // With a strict json_schema, don't pass on output that doesn't conform
+          for (const candidate of gResp.candidates ?? []) {
+            const text = candidateText(candidate);
+            if (text === undefined) continue;
+            const outputCheck = validateStructuredOutput(text, body.response_format);
+            if (!outputCheck.valid) {
+              console.log('HTTP 502: model output failed schema check');
+              sendError(res, 502, outputCheck.error);
+              return;
+            }
+          }
+
+          const mapped = mapResponse(gResp, responseOptions);
+
           res.writeHead(200, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify(mapped));
 
           console.log('✅ Replied HTTP 200 response', mapped);
         }
       } catch (err: unknown) {
-        const message = err instanceof Error ? err.message : 'Unknown error';
-        console.error('HTTP 500 Proxy error ➜', err);
-        sendError(res, 500, createError(message, 'api_error'));
+        // The client went away, so there is no one to report to
+        if (context.signal?.aborted) return;
+
+        const failure = classifyError(err);
+        console.error(`HTTP ${failure.status} Proxy error ➜`, err);
+
+        // Once streaming has started the status is sent; report in-band
+        if (res.headersSent) {
+          sendStreamError(res, failure.error);
+        } else {
+          sendError(res, failure.status, failure.error);
+        }
       }
 
       return;
     }
 
+    /* ---- /v1/completions (legacy) ---- */
+    if (req.url === '/v1/completions' && req.method === 'POST') {
+      await handleCompletions(req, res, context);
+      return;
+    }
+
+    /* ---- /v1/embeddings ---- */
+    if (req.url === '/v1/embeddings' && req.method === 'POST') {
+      let rawBody: unknown;
+      try {
+        rawBody = await readJSON(req);
+      } catch {
+        console.log('HTTP 400: malformed JSON');
+        sendError(res, 400, createError(
+          'Invalid JSON in request body',
+          'invalid_request_error',
+          'invalid_json',
+        ));
+        return;
+      }
+
+      const validation = validateEmbeddingRequest(rawBody);
+      if (!validation.valid) {
+        console.log('HTTP 400: validation failed');
+        sendError(res, 400, validation.error);
+        return;
+      }
+
+      const embeddingModel = getEmbeddingModel(validation.value.model);
+      const denied = checkModelPolicy(key, embeddingModel) ?? checkRateLimit(res, context, embeddingModel);
+      if (denied) {
+        console.log(`HTTP ${denied.status}: ${denied.error.error.message}`);
+        sendError(res, denied.status, denied.error);
+        return;
+      }
+
+      try {
+        const mapped = await createEmbeddings(validation.value, context);
+        context.onUsage?.({ promptTokenCount: mapped.usage.prompt_tokens });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(mapped));
+
+        console.log(`✅ Replied HTTP 200 with ${mapped.data.length} embeddings`);
+      } catch (err: unknown) {
+        const failure = classifyError(err);
+        console.error(`HTTP ${failure.status} Proxy error ➜`, err);
+        sendError(res, failure.status, failure.error);
+      }
+
+      return;
+    }
+
+    /* ---- /v1/responses ---- */
+    if (req.url === '/v1/responses' && req.method === 'POST') {
+      await handleCreateResponse(req, res, context);
+      return;
+    }
+
+    const responseId = req.url?.match(/^\/v1\/responses\/([^/?]+)$/)?.[1];
+    if (responseId && req.method === 'GET') {
+      await handleGetResponse(res, responseId, key);
+      return;
+    }
+    if (responseId && req.method === 'DELETE') {
+      await handleDeleteResponse(res, responseId, key);
+      return;
+    }
+
+    /* ---- /v1/files ---- */
+    if (req.url === '/v1/files' && req.method === 'POST') {
+      await handleCreateFile(req, res, context);
+      return;
+    }
+
+    const fileId = req.url?.match(/^\/v1\/files\/([^/?]+)$/)?.[1];
+    if (fileId && req.method === 'GET') {
+      await handleGetFile(res, fileId, key);
+      return;
+    }
+    if (fileId && req.method === 'DELETE') {
+      await handleDeleteFile(res, fileId, key);
+      return;
+    }
+
+    const contentFileId = req.url?.match(/^\/v1\/files\/([^/?]+)\/content$/)?.[1];
+    if (contentFileId && req.method === 'GET') {
+      await handleGetFileContent(res, contentFileId, key);
+      return;
+    }
+
+    /* ---- /v1/batches ---- */
+    if (req.url === '/v1/batches' && req.method === 'POST') {
+      await handleCreateBatch(req, res, context);
+      return;
+    }
+
+    const batchId = req.url?.match(/^\/v1\/batches\/([^/?]+)$/)?.[1];
+    if (batchId && req.method === 'GET') {
+      await handleGetBatch(res, batchId, key);
+      return;
+    }
+
+    const cancelBatchId = req.url?.match(/^\/v1\/batches\/([^/?]+)\/cancel$/)?.[1];
+    if (cancelBatchId && req.method === 'POST') {
+      await handleCancelBatch(res, cancelBatchId, key);
+      return;
+    }
+
+    /* ---- /v1/messages (Anthropic) ---- */
+    if (req.url === '/v1/messages' && req.method === 'POST') {
+      await handleMessages(req, res, context);
+      return;
+    }
+
+    if (req.url === '/v1/messages/count_tokens' && req.method === 'POST') {
+      await handleCountTokens(req, res, context);
+      return;
+    }
+
+    /* ---- Ollama-native API ---- */
+    // Ollama clients probe the root to check the server is up
+    if (req.url === '/' && (req.method === 'GET' || req.method === 'HEAD')) {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('Ollama is running');
+      return;
+    }
+
+    if (req.url === '/api/version' && req.method === 'GET') {
+      handleOllamaVersion(res);
+      return;
+    }
+
+    if (req.url === '/api/tags' && req.method === 'GET') {
+      handleOllamaTags(res, key);
+      return;
+    }
+
+    if (req.url === '/api/show' && req.method === 'POST') {
+      await handleOllamaShow(req, res, key);
+      return;
+    }
+
+    if (req.url === '/api/chat' && req.method === 'POST') {
+      await handleOllamaChat(req, res, context);
+      return;
+    }
+
+    if (req.url === '/api/generate' && req.method === 'POST') {
+      await handleOllamaGenerate(req, res, context);
+      return;
+    }
+
     /* ---- anything else ---------- */
     console.log('➜ unknown request, returning HTTP 404');
     sendError(res, 404, createError(
@@ -170,4 +419,7 @@ http
       'unknown_url',
     ));
   })
-  .listen(PORT, () => console.log(`OpenAI proxy listening on http://localhost:${PORT}`));
+  .listen(PORT, () => {
+    console.log(`OpenAI proxy listening on http://localhost:${PORT}`);
+    resumeBatches().catch((err) => console.error('Failed to resume batches:', err));
+  });
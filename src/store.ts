@@ -0,0 +1,87 @@
+/* ------------------------------------------------------------------ */
+/*  store.ts – File-backed JSON record store for server-side state     */
+/* ------------------------------------------------------------------ */
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/* ── Configuration ─────────────────────────────────────────────────── */
+
+// Root directory for state that outlives a request (stored responses, …)
+export const DATA_DIR = process.env.BRIDGE_DATA_DIR
+  ?? path.join(os.homedir(), '.gemini-openai-bridge');
+
+// Record ids become file names, so only allow a safe character set
+const SAFE_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+/* ── Store ─────────────────────────────────────────────────────────── */
+
+/**
+ * A collection of JSON records, one file per record under DATA_DIR.
+ * Unknown or malformed ids read as missing.
+ */
+export interface RecordStore<T> {
+  get: (id: string) => Promise<T | undefined>;
+  put: (id: string, value: T) => Promise<void>;
+  delete: (id: string) => Promise<boolean>;
+  /** Every record in the collection, in no particular order. */
+  list: () => Promise<T[]>;
+}
+
+export function createStore<T>(collection: string): RecordStore<T> {
+  const dir = path.join(DATA_DIR, collection);
+
+  function fileFor(id: string): string | null {
+    return SAFE_ID.test(id) ? path.join(dir, `${id}.json`) : null;
+  }
+
+  async function get(id: string): Promise<T | undefined> {
+    const file = fileFor(id);
+    if (!file) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  async function put(id: string, value: T): Promise<void> {
+    const file = fileFor(id);
+    if (!file) throw new Error(`Invalid record id: ${id}`);
+    await fs.mkdir(dir, { recursive: true });
+    // Write then rename so a crash never leaves a half-written record; each
+    // write has its own temp file, so concurrent puts of one id can't mix
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, file);
+  }
+
+  async function remove(id: string): Promise<boolean> {
+    const file = fileFor(id);
+    if (!file) return false;
+    try {
+      await fs.unlink(file);
+      return true;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw err;
+    }
+  }
+
+  async function list(): Promise<T[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+    const ids = names.filter((n) => n.endsWith('.json')).map((n) => n.slice(0, -'.json'.length));
+    const records: Array<T | undefined> = await Promise.all(ids.map(get));
+    return records.filter((r): r is T => r !== undefined);
+  }
+
+  return { get, put, delete: remove, list };
+}
@@ -7,20 +7,40 @@
 /* ================================================================== */
 
 /**
- * OpenAI message content item - either text or an image URL.
+ * OpenAI message content item - text, an image URL, audio, or a file.
  */
 export interface OpenAIContentItem {
-  type: 'text' | 'image_url';
+  type: 'text' | 'image_url' | 'input_audio' | 'file';
   text?: string;
   image_url?: { url: string };
+  input_audio?: { data: string; format: string };
+  file?: { file_data?: string; file_id?: string; filename?: string };
+}
+
+/**
+ * OpenAI tool call emitted by the assistant.
+ * `arguments` is a JSON-encoded string, as in the OpenAI API.
+ */
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
 }
 
 /**
  * OpenAI message - can have string content or structured content array.
+ * Assistant messages carrying `tool_calls` may have null content; `tool`
+ * messages answer a previous call identified by `tool_call_id`.
  */
 export interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string | OpenAIContentItem[];
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentItem[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
 }
 
 /**
@@ -29,11 +49,51 @@ export interface OpenAIMessage {
 export interface OpenAIFunction {
   name: string;
   description?: string;
-  parameters?: {
-    properties?: Record<string, unknown>;
-  };
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * OpenAI tool definition (`tools` array entry).
+ */
+export interface OpenAITool {
+  type: 'function';
+  function: OpenAIFunction;
 }
 
+/**
+ * OpenAI `tool_choice` - a mode string or a specific function.
+ */
+export type OpenAIToolChoice =
+  | 'none'
+  | 'auto'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+/**
+ * OpenAI `response_format` - plain text, any JSON object, or JSON
+ * matching a schema.
+ */
+export type OpenAIResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+    type: 'json_schema';
+    json_schema: {
+      name: string;
+      description?: string;
+      schema?: Record<string, unknown>;
+      strict?: boolean | null;
+    };
+  };
+
+/**
+ * How model reasoning (Gemini thoughts) is returned to the client:
+ * - `inline`: wrapped in `<think>` tags inside `content` (SillyTavern)
+ * - `separate`: in a `reasoning_content` field (DeepSeek/OpenRouter style)
+ * - `hidden`: not returned at all
+ */
+export type ReasoningOutput = 'inline' | 'separate' | 'hidden';
+
 /**
  * OpenAI chat completion request body.
  */
@@ -42,11 +102,76 @@ export interface OpenAIChatRequest {
   model?: string;
   temperature?: number;
   max_tokens?: number;
+  max_completion_tokens?: number;
   top_p?: number;
+  top_k?: number;
+  stop?: string | string[] | null;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
+  n?: number;
+  logprobs?: boolean;
+  top_logprobs?: number;
+  user?: string;
   stream?: boolean;
   include_reasoning?: boolean;
+  reasoning_effort?: 'low' | 'medium' | 'high';
+  reasoning_output?: ReasoningOutput;
   generationConfig?: Record<string, unknown>;
   functions?: OpenAIFunction[];
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  parallel_tool_calls?: boolean;
+  response_format?: OpenAIResponseFormat;
+  web_search_options?: OpenAIWebSearchOptions;
+  citation_footnotes?: boolean;
+}
+
+/**
+ * OpenAI `web_search_options`. Its presence turns on Google Search
+ * grounding; Gemini has no equivalent for the fields themselves.
+ */
+export interface OpenAIWebSearchOptions {
+  search_context_size?: 'low' | 'medium' | 'high';
+  user_location?: Record<string, unknown> | null;
+}
+
+/**
+ * Code Gemini ran with its code execution tool, and the result. An
+ * extension field; the same content is rendered as fenced code blocks.
+ */
+export type OpenAICodeExecutionItem =
+  | { type: 'executable_code'; language: string; code: string }
+  | { type: 'code_execution_result'; outcome: string; output: string };
+
+/**
+ * OpenAI message annotation. Grounding sources become URL citations
+ * over the part of the content they support.
+ */
+export interface OpenAIAnnotation {
+  type: 'url_citation';
+  url_citation: {
+    start_index: number;
+    end_index: number;
+    url: string;
+    title: string;
+  };
+}
+
+/**
+ * OpenAI log probability entry for one token.
+ */
+export interface OpenAITokenLogprob {
+  token: string;
+  logprob: number;
+  bytes: number[] | null;
+}
+
+/**
+ * OpenAI choice log probabilities (`logprobs.content`).
+ */
+export interface OpenAILogprobs {
+  content: Array<OpenAITokenLogprob & { top_logprobs: OpenAITokenLogprob[] }>;
 }
 
 /**
@@ -54,7 +179,15 @@ export interface OpenAIChatRequest {
  */
 export interface OpenAIChoice {
   index: number;
-  message: { role: string; content: string };
+  message: {
+    role: string;
+    content: string | null;
+    reasoning_content?: string;
+    tool_calls?: OpenAIToolCall[];
+    annotations?: OpenAIAnnotation[];
+    code_execution?: OpenAICodeExecutionItem[];
+  };
+  logprobs?: OpenAILogprobs | null;
   finish_reason: string;
 }
 
@@ -65,6 +198,9 @@ export interface OpenAIUsage {
   prompt_tokens: number;
   completion_tokens: number;
   total_tokens: number;
+  completion_tokens_details?: {
+    reasoning_tokens: number;
+  };
 }
 
 /**
@@ -79,6 +215,84 @@ export interface OpenAIChatResponse {
   usage: OpenAIUsage;
 }
 
+/**
+ * OpenAI embeddings request body.
+ */
+export interface OpenAIEmbeddingRequest {
+  input: string | string[];
+  model?: string;
+  dimensions?: number;
+  encoding_format?: 'float' | 'base64';
+  user?: string;
+}
+
+/**
+ * OpenAI embedding - a float array, or base64 of little-endian float32s.
+ */
+export interface OpenAIEmbedding {
+  object: 'embedding';
+  index: number;
+  embedding: number[] | string;
+}
+
+/**
+ * OpenAI embeddings response.
+ */
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: OpenAIEmbedding[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * OpenAI legacy completions request body. `prompt` is one prompt or a
+ * batch of prompts; token-array prompts are not supported.
+ */
+export interface OpenAICompletionRequest {
+  model: string;
+  prompt: string | string[];
+  suffix?: string;
+  echo?: boolean;
+  stop?: string | string[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  stream?: boolean;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
+  logprobs?: number | null;
+  best_of?: number;
+  user?: string;
+}
+
+/**
+ * OpenAI legacy completion choice.
+ */
+export interface OpenAICompletionChoice {
+  text: string;
+  index: number;
+  logprobs: null;
+  finish_reason: string | null;
+}
+
+/**
+ * OpenAI legacy completions response; stream chunks share the shape.
+ */
+export interface OpenAICompletionResponse {
+  id: string;
+  object: 'text_completion';
+  created: number;
+  model: string;
+  choices: OpenAICompletionChoice[];
+  usage?: OpenAIUsage;
+}
+
 /**
  * OpenAI error response.
  */
@@ -87,6 +301,34 @@ export interface OpenAIErrorResponse {
     message: string;
     type?: string;
     code?: string;
+    /** What the Gemini API reported, when the error came from upstream. */
+    upstream?: UpstreamErrorDetail;
+  };
+}
+
+/**
+ * Upstream error detail passed through to clients alongside the mapped
+ * OpenAI error.
+ */
+export interface UpstreamErrorDetail {
+  status?: number;
+  /** Google RPC status, e.g. `RESOURCE_EXHAUSTED`. */
+  reason?: string;
+  message: string;
+  details?: Array<Record<string, unknown>>;
+}
+
+/**
+ * OpenAI stream tool call fragment. The first fragment for an `index`
+ * carries the id and function name; later ones append to `arguments`.
+ */
+export interface OpenAIStreamToolCall {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
   };
 }
 
@@ -96,6 +338,10 @@ export interface OpenAIErrorResponse {
 export interface OpenAIStreamDelta {
   role?: string;
   content?: string;
+  reasoning_content?: string;
+  tool_calls?: OpenAIStreamToolCall[];
+  annotations?: OpenAIAnnotation[];
+  code_execution?: OpenAICodeExecutionItem[];
 }
 
 /**
@@ -110,17 +356,424 @@ export interface OpenAIStreamChunk {
   usage?: OpenAIUsage;
 }
 
+/**
+ * Purposes a file can be uploaded for.
+ */
+export type OpenAIFilePurpose =
+  | 'assistants'
+  | 'batch'
+  | 'batch_output'
+  | 'fine-tune'
+  | 'vision'
+  | 'user_data'
+  | 'evals';
+
+/**
+ * OpenAI file object, as returned by /v1/files.
+ */
+export interface OpenAIFile {
+  id: string;
+  object: 'file';
+  bytes: number;
+  created_at: number;
+  expires_at: number | null;
+  filename: string;
+  purpose: OpenAIFilePurpose;
+  status: 'processed';
+  status_details: null;
+}
+
+/**
+ * OpenAI create batch request (POST /v1/batches).
+ */
+export interface OpenAIBatchRequest {
+  input_file_id: string;
+  endpoint: string;
+  completion_window: '24h';
+  metadata?: Record<string, string> | null;
+}
+
+/**
+ * Lifecycle states of a batch.
+ */
+export type OpenAIBatchStatus =
+  | 'validating'
+  | 'failed'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled';
+
+/**
+ * A problem found in a batch's input file; `line` is 1-based.
+ */
+export interface OpenAIBatchError {
+  code: string;
+  message: string;
+  param: string | null;
+  line: number | null;
+}
+
+/**
+ * OpenAI batch object, as returned by /v1/batches. Timestamps are unix
+ * seconds, null until the batch reaches that state.
+ */
+export interface OpenAIBatch {
+  id: string;
+  object: 'batch';
+  endpoint: string;
+  errors: { object: 'list'; data: OpenAIBatchError[] } | null;
+  input_file_id: string;
+  completion_window: string;
+  status: OpenAIBatchStatus;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  created_at: number;
+  in_progress_at: number | null;
+  expires_at: number;
+  finalizing_at: number | null;
+  completed_at: number | null;
+  failed_at: number | null;
+  expired_at: number | null;
+  cancelling_at: number | null;
+  cancelled_at: number | null;
+  request_counts: { total: number; completed: number; failed: number };
+  metadata: Record<string, string> | null;
+}
+
+/* ================================================================== */
+/* Anthropic API Types                                                 */
+/* ================================================================== */
+
+/**
+ * Anthropic image source - inline base64 data or a URL.
+ */
+export type AnthropicImageSource =
+  | { type: 'base64'; media_type: string; data: string }
+  | { type: 'url'; url: string };
+
+/**
+ * Anthropic content block, in requests and responses.
+ */
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: AnthropicImageSource }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | {
+    type: 'tool_result';
+    tool_use_id: string;
+    content?: string | AnthropicContentBlock[];
+    is_error?: boolean;
+  }
+  | { type: 'thinking'; thinking: string; signature?: string }
+  | { type: 'redacted_thinking'; data: string };
+
+/**
+ * Anthropic message - string content or content blocks.
+ */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic tool definition.
+ */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
+/**
+ * Anthropic Messages API request body (also used by count_tokens).
+ */
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string | Array<{ type: 'text'; text: string }>;
+  max_tokens?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  tools?: AnthropicTool[];
+  tool_choice?: {
+    type: 'auto' | 'any' | 'tool' | 'none';
+    name?: string;
+    disable_parallel_tool_use?: boolean;
+  };
+  thinking?: { type: 'enabled'; budget_tokens: number } | { type: 'disabled' };
+}
+
+/**
+ * Anthropic token usage.
+ */
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Anthropic Messages API response.
+ */
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Anthropic error response.
+ */
+export interface AnthropicErrorResponse {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * Anthropic SSE event - `type` doubles as the SSE event name.
+ */
+export interface AnthropicStreamEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/* ================================================================== */
+/* Ollama API Types                                                    */
+/* ================================================================== */
+
+/**
+ * Ollama tool call - arguments are an object, and calls have no id.
+ */
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+/**
+ * Ollama chat message. Images are bare base64 strings.
+ */
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: string[];
+  thinking?: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+/**
+ * Ollama model options (the subset the bridge maps to Gemini).
+ */
+export interface OllamaOptions {
+  temperature?: number;
+  num_predict?: number;
+  num_ctx?: number;
+  stop?: string[];
+  top_p?: number;
+  top_k?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Fields shared by /api/chat and /api/generate requests.
+ * `format` is "json" or a JSON Schema; `stream` defaults to true.
+ */
+interface OllamaRequestBase {
+  model: string;
+  stream?: boolean;
+  format?: 'json' | Record<string, unknown>;
+  options?: OllamaOptions;
+  think?: boolean;
+  keep_alive?: string | number;
+}
+
+/**
+ * Ollama /api/chat request body.
+ */
+export interface OllamaChatRequest extends OllamaRequestBase {
+  messages: OllamaMessage[];
+  tools?: OpenAITool[];
+}
+
+/**
+ * Ollama /api/generate request body.
+ */
+export interface OllamaGenerateRequest extends OllamaRequestBase {
+  prompt?: string;
+  system?: string;
+  images?: string[];
+}
+
+/* ================================================================== */
+/* OpenAI Responses API Types                                          */
+/* ================================================================== */
+
+/**
+ * Content part of a Responses message item. Input messages use
+ * input_text/input_image; assistant messages use output_text.
+ */
+export type ResponsesContentPart =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_image'; image_url?: string; detail?: string }
+  | { type: 'output_text'; text: string; annotations?: unknown[] };
+
+/**
+ * Responses input or output item. `type` may be omitted on input
+ * messages (the "easy input message" form).
+ */
+export type ResponsesItem =
+  | {
+    type?: 'message';
+    id?: string;
+    role: 'user' | 'assistant' | 'system' | 'developer';
+    content: string | ResponsesContentPart[];
+    status?: string;
+  }
+  | {
+    type: 'function_call';
+    id?: string;
+    call_id: string;
+    name: string;
+    arguments: string;
+    status?: string;
+  }
+  | { type: 'function_call_output'; id?: string; call_id: string; output: string }
+  | { type: 'reasoning'; id?: string; summary: Array<{ type: 'summary_text'; text: string }> };
+
+/**
+ * Responses function tool - flattened, unlike chat completions tools.
+ */
+export interface ResponsesTool {
+  type: 'function';
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  strict?: boolean;
+}
+
+/**
+ * Responses `text.format` - the response_format equivalent, with the
+ * json_schema fields flattened.
+ */
+export type ResponsesTextFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name: string; schema?: Record<string, unknown>; description?: string; strict?: boolean };
+
+/**
+ * OpenAI Responses API request body.
+ */
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesItem[];
+  instructions?: string;
+  tools?: ResponsesTool[];
+  tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; name: string };
+  parallel_tool_calls?: boolean;
+  text?: { format?: ResponsesTextFormat };
+  reasoning?: { effort?: 'low' | 'medium' | 'high' };
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  store?: boolean;
+  previous_response_id?: string;
+  metadata?: Record<string, string>;
+  user?: string;
+}
+
+/**
+ * Responses token usage.
+ */
+export interface ResponsesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  output_tokens_details: { reasoning_tokens: number };
+}
+
+/**
+ * OpenAI Responses API response object.
+ */
+export interface ResponsesResponse {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'in_progress' | 'completed' | 'incomplete' | 'failed';
+  model: string;
+  output: ResponsesItem[];
+  instructions: string | null;
+  previous_response_id: string | null;
+  tools: ResponsesTool[];
+  tool_choice: ResponsesRequest['tool_choice'];
+  parallel_tool_calls: boolean;
+  text: { format: ResponsesTextFormat };
+  metadata: Record<string, string>;
+  incomplete_details: { reason: string } | null;
+  error: { code: string; message: string } | null;
+  usage: ResponsesUsage | null;
+}
+
+/**
+ * Responses SSE event - `type` doubles as the SSE event name.
+ */
+export interface ResponsesStreamEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
 /* ================================================================== */
 /* Gemini API Types                                                    */
 /* ================================================================== */
 
 /**
- * Gemini content part - text or inline data (images).
+ * Gemini function call requested by the model.
+ */
+export interface GeminiFunctionCall {
+  id?: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Gemini function response sent back after executing a call.
+ */
+export interface GeminiFunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/**
+ * Gemini content part - text, inline data (images) or function call/response.
  */
 export interface GeminiPart {
   text?: string;
   thought?: boolean;
   inlineData?: { mimeType: string; data: string };
+  fileData?: { mimeType: string; fileUri: string };
+  functionCall?: GeminiFunctionCall;
+  functionResponse?: GeminiFunctionResponse;
+  executableCode?: { language?: string; code?: string };
+  codeExecutionResult?: { outcome?: string; output?: string };
 }
 
 /**
@@ -138,13 +791,59 @@ export interface GeminiGenerationConfig {
   temperature?: number;
   maxOutputTokens?: number;
   topP?: number;
-  enable_thoughts?: boolean;
-  thinking?: boolean;
-  thinking_budget?: number;
+  topK?: number;
+  stopSequences?: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  seed?: number;
+  candidateCount?: number;
+  responseLogprobs?: boolean;
+  logprobs?: number;
+  thinkingConfig?: {
+    thinkingBudget?: number;
+    includeThoughts?: boolean;
+  };
   maxInputTokens?: number;
+  responseMimeType?: string;
+  responseSchema?: Record<string, unknown>;
   [key: string]: unknown;
 }
 
+/**
+ * Gemini function declaration (custom tool).
+ */
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Gemini tool - custom function declarations or a built-in such as
+ * Google Search grounding.
+ */
+export interface GeminiTool {
+  functionDeclarations?: GeminiFunctionDeclaration[];
+  googleSearch?: Record<string, never>;
+  codeExecution?: Record<string, never>;
+  urlContext?: Record<string, never>;
+}
+
+/**
+ * Gemini built-in tools the bridge can turn on, by their config names.
+ */
+export type BuiltInTool = 'google_search' | 'code_execution' | 'url_context';
+
+/**
+ * Gemini tool configuration (maps OpenAI `tool_choice`).
+ */
+export interface GeminiToolConfig {
+  functionCallingConfig: {
+    mode: 'AUTO' | 'ANY' | 'NONE';
+    allowedFunctionNames?: string[];
+  };
+}
+
 /**
  * Gemini API request structure.
  */
@@ -154,7 +853,8 @@ export interface GeminiRequest {
   generationConfig: GeminiGenerationConfig;
   stream?: boolean;
   systemInstruction?: string;
-  tools?: unknown[];
+  tools?: GeminiTool[];
+  toolConfig?: GeminiToolConfig;
 }
 
 /**
@@ -167,15 +867,61 @@ export interface GeminiUsageMetadata {
   candidatesTokens?: number;
   totalTokenCount?: number;
   totalTokens?: number;
+  thoughtsTokenCount?: number;
+}
+
+/**
+ * Gemini token log probability.
+ */
+export interface GeminiLogprobCandidate {
+  token?: string;
+  tokenId?: number;
+  logProbability?: number;
+}
+
+/**
+ * Gemini log probabilities for a candidate: the chosen token at each
+ * step, and the top alternatives at the same steps.
+ */
+export interface GeminiLogprobsResult {
+  chosenCandidates?: GeminiLogprobCandidate[];
+  topCandidates?: Array<{ candidates?: GeminiLogprobCandidate[] }>;
 }
 
 /**
  * Gemini response candidate.
  */
 export interface GeminiCandidate {
+  index?: number;
   content?: {
     parts?: GeminiPart[];
   };
+  finishReason?: string;
+  logprobsResult?: GeminiLogprobsResult;
+  groundingMetadata?: GeminiGroundingMetadata;
+}
+
+/**
+ * Google Search grounding sources. Each support ties a segment of the
+ * answer, given in UTF-8 byte offsets, to the chunks that back it.
+ */
+export interface GeminiGroundingMetadata {
+  webSearchQueries?: string[];
+  groundingChunks?: Array<{
+    web?: { uri?: string; title?: string };
+  }>;
+  groundingSupports?: Array<{
+    segment?: { startIndex?: number; endIndex?: number; text?: string };
+    groundingChunkIndices?: number[];
+  }>;
+}
+
+/**
+ * Gemini prompt feedback, set when the prompt itself was blocked.
+ */
+export interface GeminiPromptFeedback {
+  blockReason?: string;
+  blockReasonMessage?: string;
 }
 
 /**
@@ -185,9 +931,7 @@ export interface GeminiResponse {
   text?: string;
   candidates?: GeminiCandidate[];
   usageMetadata?: GeminiUsageMetadata;
-  promptFeedback?: {
-    blockReason?: string;
-  };
+  promptFeedback?: GeminiPromptFeedback;
   modelVersion?: string;
 }
 
@@ -197,6 +941,18 @@ export interface GeminiResponse {
 export interface GeminiStreamChunk {
   candidates?: GeminiCandidate[];
   usageMetadata?: GeminiUsageMetadata;
+  promptFeedback?: GeminiPromptFeedback;
+}
+
+/**
+ * Gemini embedding response - one embedding per input content.
+ * Token statistics are only reported by Vertex AI.
+ */
+export interface GeminiEmbedResponse {
+  embeddings?: Array<{
+    values?: number[];
+    statistics?: { tokenCount?: number; truncated?: boolean };
+  }>;
 }
 
 /* ================================================================== */
@@ -208,5 +964,82 @@ export interface GeminiStreamChunk {
  */
 export interface MappedRequest {
   geminiReq: GeminiRequest;
-  tools: unknown;
+  responseOptions: ResponseOptions;
+}
+
+/**
+ * Per-request settings that shape how the Gemini response is mapped back.
+ */
+export interface ResponseOptions {
+  /** False when the client set `parallel_tool_calls: false`. */
+  parallelToolCalls: boolean;
+  /** Where thoughts go in the response. */
+  reasoningOutput: ReasoningOutput;
+  /** Append grounding sources to the answer as a markdown list. */
+  citationFootnotes: boolean;
+}
+
+/**
+ * An error to send instead of a mapped response, with its HTTP status.
+ */
+export interface MappedError {
+  status: number;
+  error: OpenAIErrorResponse;
+}
+
+/**
+ * Rate limits for one client (or one client and model). Unset fields
+ * mean "no limit".
+ */
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  tokensPerDay?: number;
+}
+
+/**
+ * An inbound API key and the policy attached to it. Unset fields
+ * mean "no restriction".
+ */
+/**
+ * Queue priority class of a request. Higher classes are admitted first
+ * when the concurrency caps are reached.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface ApiKey {
+  name: string;
+  priority: RequestPriority;
+  models?: string[];
+  googleSearch: boolean;
+  codeExecution: boolean;
+  urlContext: boolean;
+  imageFetch: boolean;
+  maxOutputTokens?: number;
+  rateLimits?: RateLimits;
+  modelRateLimits?: Record<string, RateLimits>;
+}
+
+/**
+ * Per-request state shared by the front-ends and the Gemini client.
+ */
+export interface RequestContext {
+  /** Authenticated key; undefined when auth is disabled. */
+  key?: ApiKey;
+  /** Charges a response's token usage; set once the request is admitted. */
+  onUsage?: (usage: GeminiUsageMetadata) => void;
+  /** The model that served the request, once known. */
+  servedModel?: string;
+  /** Called when a fallback model served the request. */
+  onFallback?: (model: string) => void;
+  /** Aborted when the client disconnects. */
+  signal?: AbortSignal;
+  /** Queue priority class; `normal` when unset. */
+  priority?: RequestPriority;
+  /** Called once a Gemini call is admitted, with its queue position (0 if it didn't wait). */
+  onQueued?: (position: number, waitMs: number) => void;
+  /** The client's Cache-Control directive for the response cache, if any. */
+  cacheControl?: 'no-cache' | 'no-store';
+  /** Called after a response cache lookup, with whether it was a hit. */
+  onCacheLookup?: (hit: boolean) => void;
 }
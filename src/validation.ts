@@ -1,7 +1,23 @@
 /* ------------------------------------------------------------------ */
 /*  validation.ts – Request validation and OpenAI-style error helpers  */
 /* ------------------------------------------------------------------ */
-import type { OpenAIMessage, OpenAIErrorResponse } from './types';
+import { toGeminiSchema, checkAgainstSchema, SchemaConversionError } from './schema';
+import { builtInToolLabel, findBuiltInTools, isBuiltInToolEnabled } from './builtintools';
+import { toInlineData, isAttachmentProblem } from './attachments';
+import type {
+  AnthropicMessagesRequest,
+  OpenAIBatchRequest,
+  OpenAICompletionRequest,
+  OpenAIEmbeddingRequest,
+  OpenAIMessage,
+  OpenAIErrorResponse,
+  OpenAIResponseFormat,
+  OpenAITool,
+  OpenAIToolCall,
+  OllamaChatRequest,
+  OllamaGenerateRequest,
+  ResponsesRequest,
+} from './types';
 
 /**
  * Validation result - either success with the validated value or failure with error.
@@ -27,6 +43,54 @@ export function createError(
   };
 }
 
+/**
+ * Validates the `tool_calls` array of an assistant message.
+ */
+function validateToolCalls(
+  msg: Record<string, unknown>,
+  i: number,
+): ValidationResult<OpenAIToolCall[]> {
+  if (msg.role !== 'assistant') {
+    return {
+      valid: false,
+      error: createError(
+        `messages[${i}].tool_calls is only allowed on assistant messages`,
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  if (!Array.isArray(msg.tool_calls)) {
+    return {
+      valid: false,
+      error: createError(
+        `messages[${i}].tool_calls must be an array`,
+        'invalid_request_error',
+        'invalid_type',
+      ),
+    };
+  }
+
+  for (let j = 0; j < msg.tool_calls.length; j++) {
+    const call = msg.tool_calls[j];
+    if (typeof call?.id !== 'string'
+      || typeof call.function?.name !== 'string'
+      || typeof call.function?.arguments !== 'string') {
+      return {
+        valid: false,
+        error: createError(
+          `messages[${i}].tool_calls[${j}] must have a string id, function.name and function.arguments`,
+          'invalid_request_error',
+          'invalid_type',
+        ),
+      };
+    }
+  }
+
+  return { valid: true, value: msg.tool_calls as OpenAIToolCall[] };
+}
+
 /**
  * Validates that the messages array exists and is properly structured.
  */
@@ -55,6 +119,9 @@ function validateMessages(
     };
   }
 
+  // Ids of tool calls seen so far, for matching tool results
+  const toolCallIds = new Set<string>();
+
   for (let i = 0; i < messages.length; i++) {
     const msg = messages[i];
 
@@ -70,7 +137,7 @@ function validateMessages(
       };
     }
 
-    const validRoles = ['system', 'user', 'assistant'];
+    const validRoles = ['system', 'user', 'assistant', 'tool'];
     if (!validRoles.includes(msg.role)) {
       return {
         valid: false,
@@ -82,6 +149,45 @@ function validateMessages(
       };
     }
 
+    // Validate tool calls made by the assistant
+    if (msg.tool_calls !== undefined) {
+      const toolCallsResult = validateToolCalls(msg, i);
+      if (!toolCallsResult.valid) return toolCallsResult;
+      for (const call of toolCallsResult.value) toolCallIds.add(call.id);
+    }
+
+    // Tool results must answer a call made earlier in the conversation
+    if (msg.role === 'tool') {
+      if (typeof msg.tool_call_id !== 'string') {
+        return {
+          valid: false,
+          error: createError(
+            `messages[${i}].tool_call_id is required for role "tool"`,
+            'invalid_request_error',
+            'missing_required_parameter',
+          ),
+        };
+      }
+
+      if (!toolCallIds.has(msg.tool_call_id)) {
+        return {
+          valid: false,
+          error: createError(
+            `messages[${i}].tool_call_id "${msg.tool_call_id}" does not match any preceding assistant tool call`,
+            'invalid_request_error',
+            'invalid_value',
+          ),
+        };
+      }
+    }
+
+    // Assistant messages that only call tools may omit content
+    const hasToolCalls = Array.isArray(msg.tool_calls) && msg.tool_calls.length > 0;
+    if (msg.role === 'assistant' && hasToolCalls
+      && (msg.content === undefined || msg.content === null)) {
+      continue;
+    }
+
     // Validate content - can be string or array of content items
     if (msg.content === undefined || msg.content === null) {
       return {
@@ -120,6 +226,27 @@ function validateMessages(
           };
         }
 
+        const contentTypes = ['text', 'image_url', 'input_audio', 'file'];
+        if (!contentTypes.includes(item.type)) {
+          return {
+            valid: false,
+            error: createError(
+              `messages[${i}].content[${j}].type must be one of: ${contentTypes.join(', ')}`,
+              'invalid_request_error',
+              'invalid_value',
+            ),
+          };
+        }
+
+        // Audio and documents must have a type and size Gemini accepts
+        const inline = toInlineData(item);
+        if (inline && isAttachmentProblem(inline)) {
+          return {
+            valid: false,
+            error: createError(`messages[${i}].content[${j}]: ${inline.message}`, 'invalid_request_error', inline.code),
+          };
+        }
+
         if (item.type === 'text' && typeof item.text !== 'string') {
           return {
             valid: false,
@@ -165,32 +292,1130 @@ function validateMessages(
 }
 
 /**
- * Validates an incoming chat completion request body.
- * Returns the validated body or an error response.
+ * Validates a function's `parameters` schema by translating it the same
+ * way the mapper will. Errors name the tool and the JSON pointer of the
+ * field Gemini can't express.
  */
-export function validateChatRequest(
-  body: unknown,
-): ValidationResult<{ messages: OpenAIMessage[] }> {
-  if (typeof body !== 'object' || body === null) {
+function validateFunctionParameters(
+  name: string,
+  path: string,
+  parameters: unknown,
+): ValidationResult<unknown> {
+  if (parameters === undefined) return { valid: true, value: parameters };
+
+  if (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters)) {
     return {
       valid: false,
       error: createError(
-        'Request body must be a JSON object',
+        `${path}.parameters must be a JSON Schema object`,
         'invalid_request_error',
+        'invalid_type',
       ),
     };
   }
 
-  const obj = body as Record<string, unknown>;
+  try {
+    const schema = toGeminiSchema(parameters as Record<string, unknown>);
+    if (schema.type !== undefined && schema.type !== 'OBJECT') {
+      throw new SchemaConversionError('Function parameters must be an object schema', '');
+    }
+  } catch (err) {
+    if (!(err instanceof SchemaConversionError)) throw err;
+    return {
+      valid: false,
+      error: createError(
+        `Invalid parameters for tool "${name}" (${path}.parameters): ${err.message}`,
+        'invalid_request_error',
+        'unsupported_schema',
+      ),
+    };
+  }
 
-  // Validate messages (required)
-  const messagesResult = validateMessages(obj.messages);
-  if (!messagesResult.valid) {
-    return messagesResult;
+  return { valid: true, value: parameters };
+}
+
+/**
+ * Validates the `tools` array (and legacy `functions`) and `tool_choice`
+ * of a chat request.
+ */
+function validateTools(obj: Record<string, unknown>): ValidationResult<OpenAITool[]> {
+  const tools = obj.tools ?? [];
+  if (!Array.isArray(tools)) {
+    return {
+      valid: false,
+      error: createError('tools must be an array', 'invalid_request_error', 'invalid_type'),
+    };
   }
 
-  return {
-    valid: true,
-    value: { messages: messagesResult.value },
-  };
+  const functions = obj.functions ?? [];
+  if (!Array.isArray(functions)) {
+    return {
+      valid: false,
+      error: createError('functions must be an array', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+
+  // Every definition, labelled with its path for error messages
+  const definitions: Array<{ path: string; fn: Record<string, unknown> | undefined }> = [];
+
+  for (let i = 0; i < tools.length; i++) {
+    const tool = tools[i];
+    if (tool?.type !== 'function') {
+      return {
+        valid: false,
+        error: createError(
+          `tools[${i}].type must be "function"`,
+          'invalid_request_error',
+          'invalid_value',
+        ),
+      };
+    }
+    definitions.push({ path: `tools[${i}].function`, fn: tool.function });
+  }
+  functions.forEach((fn, i) => definitions.push({ path: `functions[${i}]`, fn }));
+
+  const names = new Set<string>();
+  for (const { path, fn } of definitions) {
+    const name = fn?.name;
+    if (typeof name !== 'string' || !/^[a-zA-Z_][a-zA-Z0-9_.:-]{0,63}$/.test(name)) {
+      return {
+        valid: false,
+        error: createError(
+          `${path}.name must be a string of up to 64 letters, digits, underscores, dots, colons or dashes`,
+          'invalid_request_error',
+          'invalid_value',
+        ),
+      };
+    }
+    names.add(name);
+
+    const paramsResult = validateFunctionParameters(name, path, fn?.parameters);
+    if (!paramsResult.valid) {
+      return paramsResult;
+    }
+  }
+
+  const choice = obj.tool_choice;
+  if (choice !== undefined) {
+    const isMode = choice === 'none' || choice === 'auto' || choice === 'required';
+    const isNamed = typeof choice === 'object' && choice !== null
+      && (choice as Record<string, unknown>).type === 'function'
+      && typeof (choice as { function?: { name?: unknown } }).function?.name === 'string';
+
+    if (!isMode && !isNamed) {
+      return {
+        valid: false,
+        error: createError(
+          'tool_choice must be "none", "auto", "required" or {"type": "function", "function": {"name": ...}}',
+          'invalid_request_error',
+          'invalid_value',
+        ),
+      };
+    }
+
+    if (isNamed) {
+      const name = (choice as { function: { name: string } }).function.name;
+      if (!names.has(name)) {
+        return {
+          valid: false,
+          error: createError(
+            `tool_choice names function "${name}", which is not in tools`,
+            'invalid_request_error',
+            'invalid_value',
+          ),
+        };
+      }
+
+      // Aliases turn a built-in on rather than declaring a function, so
+      // there is no function for Gemini to be forced to call
+      const builtIn = findBuiltInTools([{ name }]).get(name);
+      if (builtIn) {
+        return {
+          valid: false,
+          error: createError(
+            `tool_choice names "${name}", which turns on ${builtInToolLabel(builtIn)} and can't be forced; use "auto"`,
+            'invalid_request_error',
+            'invalid_value',
+          ),
+        };
+      }
+    }
+  }
+
+  return { valid: true, value: tools as OpenAITool[] };
+}
+
+/**
+ * Validates `response_format`, including whether a `json_schema`
+ * can be expressed in Gemini's schema subset.
+ */
+function validateResponseFormat(
+  format: unknown,
+): ValidationResult<OpenAIResponseFormat | undefined> {
+  if (format === undefined) return { valid: true, value: undefined };
+
+  const type = (format as { type?: unknown } | null)?.type;
+  if (type !== 'text' && type !== 'json_object' && type !== 'json_schema') {
+    return {
+      valid: false,
+      error: createError(
+        'response_format.type must be one of: text, json_object, json_schema',
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  if (type !== 'json_schema') {
+    return { valid: true, value: format as OpenAIResponseFormat };
+  }
+
+  const jsonSchema = (format as { json_schema?: Record<string, unknown> }).json_schema;
+  if (typeof jsonSchema?.name !== 'string') {
+    return {
+      valid: false,
+      error: createError(
+        'response_format.json_schema.name is required for type "json_schema"',
+        'invalid_request_error',
+        'missing_required_parameter',
+      ),
+    };
+  }
+
+  const schema = jsonSchema.schema;
+  if (schema !== undefined) {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return {
+        valid: false,
+        error: createError(
+          'response_format.json_schema.schema must be an object',
+          'invalid_request_error',
+          'invalid_type',
+        ),
+      };
+    }
+
+    try {
+      toGeminiSchema(schema as Record<string, unknown>);
+    } catch (err) {
+      if (!(err instanceof SchemaConversionError)) throw err;
+      return {
+        valid: false,
+        error: createError(
+          `response_format.json_schema.schema cannot be used with Gemini: ${err.message}`,
+          'invalid_request_error',
+          'unsupported_schema',
+        ),
+      };
+    }
+  }
+
+  return { valid: true, value: format as OpenAIResponseFormat };
+}
+
+/**
+ * Checks model output against a strict `json_schema` response format.
+ * Formats without `strict: true` always pass.
+ */
+export function validateStructuredOutput(
+  text: string,
+  format: OpenAIResponseFormat | undefined,
+): ValidationResult<string> {
+  if (format?.type !== 'json_schema' || format.json_schema.strict !== true) {
+    return { valid: true, value: text };
+  }
+
+  // Inline reasoning isn't part of the answer
+  const answer = text.replace(/^<think>[\s\S]*?<\/think>/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(answer);
+  } catch {
+    return {
+      valid: false,
+      error: createError(
+        'Model output is not valid JSON',
+        'api_error',
+        'invalid_model_output',
+      ),
+    };
+  }
+
+  const problems = checkAgainstSchema(parsed, format.json_schema.schema ?? {});
+  if (problems.length > 0) {
+    return {
+      valid: false,
+      error: createError(
+        `Model output does not match response_format schema "${format.json_schema.name}": ${problems.join('; ')}`,
+        'api_error',
+        'invalid_model_output',
+      ),
+    };
+  }
+
+  return { valid: true, value: text };
+}
+
+/**
+ * Numeric sampling parameters and the ranges Gemini accepts for them.
+ */
+const NUMERIC_PARAMETERS: Array<{ name: string; min?: number; max?: number; integer?: boolean }> = [
+  { name: 'temperature', min: 0, max: 2 },
+  { name: 'top_p', min: 0, max: 1 },
+  { name: 'top_k', min: 1, integer: true },
+  { name: 'max_tokens', min: 1, integer: true },
+  { name: 'max_completion_tokens', min: 1, integer: true },
+  { name: 'presence_penalty', min: -2, max: 2 },
+  { name: 'frequency_penalty', min: -2, max: 2 },
+  { name: 'seed', integer: true },
+  { name: 'n', min: 1, max: 8, integer: true },
+  { name: 'top_logprobs', min: 0, max: 20, integer: true },
+];
+
+// Gemini accepts at most this many stop sequences
+const MAX_STOP_SEQUENCES = 5;
+
+/**
+ * Validates sampling parameters: ranges, types, and combinations
+ * Gemini can't honour.
+ */
+function validateSamplingParameters(obj: Record<string, unknown>): ValidationResult<null> {
+  for (const { name, min, max, integer } of NUMERIC_PARAMETERS) {
+    const value = obj[name];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      return {
+        valid: false,
+        error: createError(
+          `${name} must be ${integer ? 'an integer' : 'a number'}`,
+          'invalid_request_error',
+          'invalid_type',
+        ),
+      };
+    }
+
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      const range = max === undefined ? `>= ${min}` : min === undefined ? `<= ${max}` : `between ${min} and ${max}`;
+      return {
+        valid: false,
+        error: createError(`${name} must be ${range}`, 'invalid_request_error', 'invalid_value'),
+      };
+    }
+  }
+
+  const stop = obj.stop;
+  if (stop !== undefined && stop !== null) {
+    const sequences = typeof stop === 'string' ? [stop] : stop;
+    if (!Array.isArray(sequences) || !sequences.every((s) => typeof s === 'string' && s.length > 0)) {
+      return {
+        valid: false,
+        error: createError(
+          'stop must be a non-empty string or an array of non-empty strings',
+          'invalid_request_error',
+          'invalid_type',
+        ),
+      };
+    }
+    if (sequences.length > MAX_STOP_SEQUENCES) {
+      return {
+        valid: false,
+        error: createError(
+          `stop may contain at most ${MAX_STOP_SEQUENCES} sequences`,
+          'invalid_request_error',
+          'invalid_value',
+        ),
+      };
+    }
+  }
+
+  if (obj.logprobs !== undefined && obj.logprobs !== null && typeof obj.logprobs !== 'boolean') {
+    return {
+      valid: false,
+      error: createError('logprobs must be a boolean', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+
+  if (obj.top_logprobs !== undefined && obj.top_logprobs !== null && obj.logprobs !== true) {
+    return {
+      valid: false,
+      error: createError(
+        'top_logprobs requires logprobs to be true',
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  if (obj.user !== undefined && typeof obj.user !== 'string') {
+    return {
+      valid: false,
+      error: createError('user must be a string', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+
+  /* ---- parameters Gemini can't honour ---------------------------- */
+  const unsupported = (message: string): ValidationResult<null> => ({
+    valid: false,
+    error: createError(message, 'invalid_request_error', 'unsupported_parameter'),
+  });
+
+  const logitBias = obj.logit_bias;
+  if (logitBias && typeof logitBias === 'object' && Object.keys(logitBias).length > 0) {
+    return unsupported('logit_bias is not supported by Gemini');
+  }
+
+  if (obj.stream === true && typeof obj.n === 'number' && obj.n > 1) {
+    return unsupported('n greater than 1 is not supported when streaming');
+  }
+
+  if (obj.stream === true && obj.logprobs === true) {
+    return unsupported('logprobs is not supported when streaming');
+  }
+
+  return { valid: true, value: null };
+}
+
+/**
+ * Validates an incoming chat completion request body.
+ * Returns the validated body or an error response.
+ */
+export function validateChatRequest(
+  body: unknown,
+): ValidationResult<{ messages: OpenAIMessage[] }> {
+  if (typeof body !== 'object' || body === null) {
+    return {
+      valid: false,
+      error: createError(
+        'Request body must be a JSON object',
+        'invalid_request_error',
+      ),
+    };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  // Validate messages (required)
+  const messagesResult = validateMessages(obj.messages);
+  if (!messagesResult.valid) {
+    return messagesResult;
+  }
+
+  // Validate tools and tool_choice (optional)
+  const toolsResult = validateTools(obj);
+  if (!toolsResult.valid) {
+    return toolsResult;
+  }
+
+  // Validate sampling parameters (optional)
+  const samplingResult = validateSamplingParameters(obj);
+  if (!samplingResult.valid) {
+    return samplingResult;
+  }
+
+  // Validate reasoning options (optional)
+  const efforts = ['low', 'medium', 'high'];
+  if (obj.reasoning_effort !== undefined && !efforts.includes(obj.reasoning_effort as string)) {
+    return {
+      valid: false,
+      error: createError(
+        `reasoning_effort must be one of: ${efforts.join(', ')}`,
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  const outputs = ['inline', 'separate', 'hidden'];
+  if (obj.reasoning_output !== undefined && !outputs.includes(obj.reasoning_output as string)) {
+    return {
+      valid: false,
+      error: createError(
+        `reasoning_output must be one of: ${outputs.join(', ')}`,
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  // Validate grounding options (optional)
+  const searchOptions = obj.web_search_options;
+  if (searchOptions !== undefined && (typeof searchOptions !== 'object' || searchOptions === null
+    || Array.isArray(searchOptions))) {
+    return {
+      valid: false,
+      error: createError('web_search_options must be an object', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+  if (searchOptions !== undefined && !isBuiltInToolEnabled('google_search')) {
+    return {
+      valid: false,
+      error: createError(
+        'web_search_options is not available: Google Search is disabled on this server',
+        'invalid_request_error',
+        'unsupported_parameter',
+      ),
+    };
+  }
+  if (obj.citation_footnotes !== undefined && typeof obj.citation_footnotes !== 'boolean') {
+    return {
+      valid: false,
+      error: createError('citation_footnotes must be a boolean', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+
+  // Validate response_format (optional)
+  const formatResult = validateResponseFormat(obj.response_format);
+  if (!formatResult.valid) {
+    return formatResult;
+  }
+
+  return {
+    valid: true,
+    value: { messages: messagesResult.value },
+  };
+}
+
+// Maximum number of inputs accepted in one embeddings request (as OpenAI)
+const MAX_EMBEDDING_INPUTS = 2048;
+
+/**
+ * Validates an incoming embeddings request body.
+ * Returns the validated body or an error response.
+ */
+export function validateEmbeddingRequest(
+  body: unknown,
+): ValidationResult<OpenAIEmbeddingRequest> {
+  if (typeof body !== 'object' || body === null) {
+    return {
+      valid: false,
+      error: createError(
+        'Request body must be a JSON object',
+        'invalid_request_error',
+      ),
+    };
+  }
+
+  const obj = body as Record<string, unknown>;
+  const input = obj.input;
+
+  if (input === undefined || input === null) {
+    return {
+      valid: false,
+      error: createError(
+        'input is required',
+        'invalid_request_error',
+        'missing_required_parameter',
+      ),
+    };
+  }
+
+  // Token-array inputs would need OpenAI's tokenizer to decode
+  const texts = typeof input === 'string' ? [input] : input;
+  if (!Array.isArray(texts) || !texts.every((t) => typeof t === 'string')) {
+    return {
+      valid: false,
+      error: createError(
+        'input must be a string or an array of strings (token arrays are not supported)',
+        'invalid_request_error',
+        'invalid_type',
+      ),
+    };
+  }
+
+  if (texts.length === 0 || texts.length > MAX_EMBEDDING_INPUTS || texts.some((t) => t.length === 0)) {
+    return {
+      valid: false,
+      error: createError(
+        `input must contain between 1 and ${MAX_EMBEDDING_INPUTS} non-empty strings`,
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  if (obj.dimensions !== undefined
+    && (typeof obj.dimensions !== 'number' || !Number.isInteger(obj.dimensions) || obj.dimensions < 1)) {
+    return {
+      valid: false,
+      error: createError(
+        'dimensions must be a positive integer',
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  if (obj.encoding_format !== undefined
+    && obj.encoding_format !== 'float' && obj.encoding_format !== 'base64') {
+    return {
+      valid: false,
+      error: createError(
+        'encoding_format must be one of: float, base64',
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  return { valid: true, value: obj as unknown as OpenAIEmbeddingRequest };
+}
+
+// Content block types accepted in Anthropic messages, by role
+const ANTHROPIC_BLOCK_TYPES: Record<string, string[]> = {
+  user: ['text', 'image', 'tool_result'],
+  assistant: ['text', 'tool_use', 'thinking', 'redacted_thinking'],
+};
+
+/**
+ * Validates the structure of an Anthropic Messages API request.
+ * Deeper checks (tool ids, schemas, sampling ranges) happen when the
+ * converted request goes through `validateChatRequest`.
+ * Errors are OpenAI-shaped; the Anthropic handler converts them.
+ */
+export function validateMessagesRequest(
+  body: unknown,
+  requireMaxTokens: boolean,
+): ValidationResult<AnthropicMessagesRequest> {
+  if (typeof body !== 'object' || body === null) {
+    return {
+      valid: false,
+      error: createError(
+        'Request body must be a JSON object',
+        'invalid_request_error',
+      ),
+    };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  if (typeof obj.model !== 'string') {
+    return {
+      valid: false,
+      error: createError('model: Field required', 'invalid_request_error', 'missing_required_parameter'),
+    };
+  }
+
+  if (requireMaxTokens
+    && (typeof obj.max_tokens !== 'number' || !Number.isInteger(obj.max_tokens) || obj.max_tokens < 1)) {
+    return {
+      valid: false,
+      error: createError(
+        'max_tokens: Field required and must be a positive integer',
+        'invalid_request_error',
+        'missing_required_parameter',
+      ),
+    };
+  }
+
+  const system = obj.system;
+  if (system !== undefined && typeof system !== 'string'
+    && !(Array.isArray(system) && system.every((b) => b?.type === 'text' && typeof b.text === 'string'))) {
+    return {
+      valid: false,
+      error: createError(
+        'system must be a string or an array of text blocks',
+        'invalid_request_error',
+        'invalid_type',
+      ),
+    };
+  }
+
+  if (!Array.isArray(obj.messages) || obj.messages.length === 0) {
+    return {
+      valid: false,
+      error: createError(
+        'messages: at least one message is required',
+        'invalid_request_error',
+        'missing_required_parameter',
+      ),
+    };
+  }
+
+  for (let i = 0; i < obj.messages.length; i++) {
+    const msg = obj.messages[i];
+    const allowed = ANTHROPIC_BLOCK_TYPES[msg?.role];
+    if (!allowed) {
+      return {
+        valid: false,
+        error: createError(
+          `messages.${i}.role must be one of: user, assistant`,
+          'invalid_request_error',
+          'invalid_value',
+        ),
+      };
+    }
+
+    if (typeof msg.content === 'string') continue;
+    if (!Array.isArray(msg.content)) {
+      return {
+        valid: false,
+        error: createError(
+          `messages.${i}.content must be a string or an array of content blocks`,
+          'invalid_request_error',
+          'invalid_type',
+        ),
+      };
+    }
+
+    for (let j = 0; j < msg.content.length; j++) {
+      const block = msg.content[j];
+      if (!allowed.includes(block?.type)) {
+        return {
+          valid: false,
+          error: createError(
+            `messages.${i}.content.${j}.type must be one of: ${allowed.join(', ')} for role "${msg.role}"`,
+            'invalid_request_error',
+            'invalid_value',
+          ),
+        };
+      }
+
+      const malformed =
+        (block.type === 'text' && typeof block.text !== 'string')
+        || (block.type === 'image'
+          && !(block.source?.type === 'base64' && typeof block.source.data === 'string')
+          && !(block.source?.type === 'url' && typeof block.source.url === 'string'))
+        || (block.type === 'tool_use' && (typeof block.id !== 'string' || typeof block.name !== 'string'))
+        || (block.type === 'tool_result' && typeof block.tool_use_id !== 'string');
+      if (malformed) {
+        return {
+          valid: false,
+          error: createError(
+            `messages.${i}.content.${j} is not a valid "${block.type}" block`,
+            'invalid_request_error',
+            'invalid_value',
+          ),
+        };
+      }
+    }
+  }
+
+  const tools = obj.tools ?? [];
+  if (!Array.isArray(tools)
+    || !tools.every((t) => typeof t?.name === 'string' && typeof t.input_schema === 'object' && t.input_schema !== null)) {
+    return {
+      valid: false,
+      error: createError(
+        'tools must be an array of {name, input_schema} definitions',
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  return { valid: true, value: obj as unknown as AnthropicMessagesRequest };
+}
+
+/**
+ * Validates the structure of an Ollama /api/chat or /api/generate request.
+ * As with Anthropic requests, the converted chat request is validated
+ * again by `validateChatRequest`.
+ */
+export function validateOllamaRequest(
+  body: unknown,
+  endpoint: 'chat' | 'generate',
+): ValidationResult<OllamaChatRequest | OllamaGenerateRequest> {
+  if (typeof body !== 'object' || body === null) {
+    return {
+      valid: false,
+      error: createError(
+        'Request body must be a JSON object',
+        'invalid_request_error',
+      ),
+    };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  if (typeof obj.model !== 'string' || obj.model === '') {
+    return {
+      valid: false,
+      error: createError('model is required', 'invalid_request_error', 'missing_required_parameter'),
+    };
+  }
+
+  const isBase64List = (v: unknown) =>
+    v === undefined || v === null || (Array.isArray(v) && v.every((i) => typeof i === 'string'));
+
+  if (endpoint === 'chat') {
+    if (!Array.isArray(obj.messages)) {
+      return {
+        valid: false,
+        error: createError(
+          'messages is required and must be an array',
+          'invalid_request_error',
+          'missing_required_parameter',
+        ),
+      };
+    }
+
+    const roles = ['system', 'user', 'assistant', 'tool'];
+    for (let i = 0; i < obj.messages.length; i++) {
+      const msg = obj.messages[i];
+      if (!roles.includes(msg?.role) || (msg.content !== undefined && typeof msg.content !== 'string')
+        || !isBase64List(msg.images)) {
+        return {
+          valid: false,
+          error: createError(
+            `messages[${i}] must have a role (${roles.join(', ')}), string content and base64 images`,
+            'invalid_request_error',
+            'invalid_value',
+          ),
+        };
+      }
+    }
+  } else {
+    if ((obj.prompt !== undefined && typeof obj.prompt !== 'string')
+      || (obj.system !== undefined && typeof obj.system !== 'string')
+      || !isBase64List(obj.images)) {
+      return {
+        valid: false,
+        error: createError(
+          'prompt and system must be strings and images an array of base64 strings',
+          'invalid_request_error',
+          'invalid_type',
+        ),
+      };
+    }
+  }
+
+  if (obj.options !== undefined && (typeof obj.options !== 'object' || obj.options === null)) {
+    return {
+      valid: false,
+      error: createError('options must be an object', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+
+  const format = obj.format;
+  if (format !== undefined && format !== '' && format !== 'json'
+    && (typeof format !== 'object' || format === null || Array.isArray(format))) {
+    return {
+      valid: false,
+      error: createError(
+        'format must be "json" or a JSON Schema object',
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  return { valid: true, value: obj as unknown as OllamaChatRequest | OllamaGenerateRequest };
+}
+
+// Responses content part types accepted per message role
+const RESPONSES_PART_TYPES: Record<string, string[]> = {
+  user: ['input_text', 'input_image'],
+  system: ['input_text'],
+  developer: ['input_text'],
+  assistant: ['output_text'],
+};
+
+/**
+ * Checks one Responses input item, returning an error message or null.
+ */
+function checkResponsesItem(item: Record<string, unknown>, path: string): string | null {
+  const type = item.type ?? 'message';
+
+  if (type === 'message') {
+    const allowed = RESPONSES_PART_TYPES[item.role as string];
+    if (!allowed) {
+      return `${path}.role must be one of: ${Object.keys(RESPONSES_PART_TYPES).join(', ')}`;
+    }
+    if (typeof item.content === 'string') return null;
+    if (!Array.isArray(item.content)) {
+      return `${path}.content must be a string or an array of content parts`;
+    }
+    for (let j = 0; j < item.content.length; j++) {
+      const part = item.content[j];
+      if (!allowed.includes(part?.type)) {
+        return `${path}.content[${j}].type must be one of: ${allowed.join(', ')} for role "${item.role}"`;
+      }
+      if (part.type === 'input_image' ? typeof part.image_url !== 'string' : typeof part.text !== 'string') {
+        return `${path}.content[${j}] is not a valid "${part.type}" part`;
+      }
+    }
+    return null;
+  }
+
+  if (type === 'function_call') {
+    const valid = typeof item.call_id === 'string' && typeof item.name === 'string'
+      && typeof item.arguments === 'string';
+    return valid ? null : `${path} must have string call_id, name and arguments`;
+  }
+
+  if (type === 'function_call_output') {
+    const valid = typeof item.call_id === 'string' && typeof item.output === 'string';
+    return valid ? null : `${path} must have string call_id and output`;
+  }
+
+  if (type === 'reasoning') return null;
+
+  return `${path}.type must be one of: message, function_call, function_call_output, reasoning`;
+}
+
+/**
+ * Validates the structure of an OpenAI Responses API request. Like the
+ * other front-ends, the converted chat request is validated again by
+ * `validateChatRequest`.
+ */
+export function validateResponsesRequest(body: unknown): ValidationResult<ResponsesRequest> {
+  if (typeof body !== 'object' || body === null) {
+    return {
+      valid: false,
+      error: createError(
+        'Request body must be a JSON object',
+        'invalid_request_error',
+      ),
+    };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  if (typeof obj.model !== 'string') {
+    return {
+      valid: false,
+      error: createError('model is required', 'invalid_request_error', 'missing_required_parameter'),
+    };
+  }
+
+  if (typeof obj.input !== 'string' && !Array.isArray(obj.input)) {
+    return {
+      valid: false,
+      error: createError(
+        'input is required and must be a string or an array of items',
+        'invalid_request_error',
+        'missing_required_parameter',
+      ),
+    };
+  }
+
+  if (Array.isArray(obj.input)) {
+    for (let i = 0; i < obj.input.length; i++) {
+      const item = obj.input[i];
+      const problem = typeof item === 'object' && item !== null
+        ? checkResponsesItem(item, `input[${i}]`)
+        : `input[${i}] must be an object`;
+      if (problem) {
+        return {
+          valid: false,
+          error: createError(problem, 'invalid_request_error', 'invalid_value'),
+        };
+      }
+    }
+  }
+
+  for (const field of ['instructions', 'previous_response_id'] as const) {
+    if (obj[field] !== undefined && obj[field] !== null && typeof obj[field] !== 'string') {
+      return {
+        valid: false,
+        error: createError(`${field} must be a string`, 'invalid_request_error', 'invalid_type'),
+      };
+    }
+  }
+
+  const tools = obj.tools ?? [];
+  if (!Array.isArray(tools)) {
+    return {
+      valid: false,
+      error: createError('tools must be an array', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+  for (let i = 0; i < tools.length; i++) {
+    if (tools[i]?.type !== 'function') {
+      return {
+        valid: false,
+        error: createError(
+          `tools[${i}]: only function tools are supported`,
+          'invalid_request_error',
+          'unsupported_parameter',
+        ),
+      };
+    }
+    if (typeof tools[i].name !== 'string') {
+      return {
+        valid: false,
+        error: createError(`tools[${i}].name is required`, 'invalid_request_error', 'missing_required_parameter'),
+      };
+    }
+  }
+
+  const format = (obj.text as { format?: Record<string, unknown> } | undefined)?.format;
+  if (format !== undefined) {
+    if (!['text', 'json_object', 'json_schema'].includes(format?.type as string)) {
+      return {
+        valid: false,
+        error: createError(
+          'text.format.type must be one of: text, json_object, json_schema',
+          'invalid_request_error',
+          'invalid_value',
+        ),
+      };
+    }
+    if (format.type === 'json_schema' && typeof format.name !== 'string') {
+      return {
+        valid: false,
+        error: createError(
+          'text.format.name is required for json_schema',
+          'invalid_request_error',
+          'missing_required_parameter',
+        ),
+      };
+    }
+  }
+
+  return { valid: true, value: obj as unknown as ResponsesRequest };
+}
+
+/**
+ * Validates the structure of a legacy /v1/completions request. Each
+ * prompt becomes a chat request that is validated again by
+ * `validateChatRequest`, which covers the sampling parameters.
+ */
+export function validateCompletionRequest(body: unknown): ValidationResult<OpenAICompletionRequest> {
+  if (typeof body !== 'object' || body === null) {
+    return {
+      valid: false,
+      error: createError(
+        'Request body must be a JSON object',
+        'invalid_request_error',
+      ),
+    };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  if (typeof obj.model !== 'string') {
+    return {
+      valid: false,
+      error: createError('model is required', 'invalid_request_error', 'missing_required_parameter'),
+    };
+  }
+
+  const prompt = obj.prompt;
+  if (Array.isArray(prompt) && prompt.some((p) => typeof p !== 'string')) {
+    return {
+      valid: false,
+      error: createError(
+        'Token-array prompts are not supported; send prompt as text',
+        'invalid_request_error',
+        'unsupported_parameter',
+      ),
+    };
+  }
+  if (typeof prompt !== 'string' && !(Array.isArray(prompt) && prompt.length > 0)) {
+    return {
+      valid: false,
+      error: createError(
+        'prompt is required and must be a string or an array of strings',
+        'invalid_request_error',
+        'missing_required_parameter',
+      ),
+    };
+  }
+
+  if (obj.suffix !== undefined && obj.suffix !== null && typeof obj.suffix !== 'string') {
+    return {
+      valid: false,
+      error: createError('suffix must be a string', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+
+  if (obj.echo !== undefined && typeof obj.echo !== 'boolean') {
+    return {
+      valid: false,
+      error: createError('echo must be a boolean', 'invalid_request_error', 'invalid_type'),
+    };
+  }
+
+  // Gemini's logprobs don't line up with the legacy text_offset format
+  if (obj.logprobs !== undefined && obj.logprobs !== null) {
+    return {
+      valid: false,
+      error: createError(
+        'logprobs is not supported on /v1/completions',
+        'invalid_request_error',
+        'unsupported_parameter',
+      ),
+    };
+  }
+
+  if (typeof obj.best_of === 'number' && obj.best_of > ((obj.n as number | undefined) ?? 1)) {
+    return {
+      valid: false,
+      error: createError(
+        'best_of greater than n is not supported',
+        'invalid_request_error',
+        'unsupported_parameter',
+      ),
+    };
+  }
+
+  return { valid: true, value: obj as unknown as OpenAICompletionRequest };
+}
+
+// Most metadata entries a batch may carry, as in the OpenAI API
+const MAX_METADATA_ENTRIES = 16;
+
+/**
+ * Validates a create batch request. The input file and its lines are
+ * checked when the batch runs.
+ */
+export function validateBatchRequest(body: unknown): ValidationResult<OpenAIBatchRequest> {
+  if (typeof body !== 'object' || body === null) {
+    return {
+      valid: false,
+      error: createError(
+        'Request body must be a JSON object',
+        'invalid_request_error',
+      ),
+    };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  for (const field of ['input_file_id', 'endpoint', 'completion_window']) {
+    if (typeof obj[field] !== 'string') {
+      return {
+        valid: false,
+        error: createError(`${field} is required`, 'invalid_request_error', 'missing_required_parameter'),
+      };
+    }
+  }
+
+  if (obj.endpoint !== '/v1/chat/completions') {
+    return {
+      valid: false,
+      error: createError(
+        'Only the /v1/chat/completions endpoint is supported for batches',
+        'invalid_request_error',
+        'invalid_value',
+      ),
+    };
+  }
+
+  if (obj.completion_window !== '24h') {
+    return {
+      valid: false,
+      error: createError('completion_window must be "24h"', 'invalid_request_error', 'invalid_value'),
+    };
+  }
+
+  const metadata = obj.metadata;
+  if (metadata !== undefined && metadata !== null) {
+    const entries = typeof metadata === 'object' && !Array.isArray(metadata) ? Object.values(metadata) : null;
+    if (!entries || entries.length > MAX_METADATA_ENTRIES || entries.some((v) => typeof v !== 'string')) {
+      return {
+        valid: false,
+        error: createError(
+          `metadata must be an object of at most ${MAX_METADATA_ENTRIES} string values`,
+          'invalid_request_error',
+          'invalid_type',
+        ),
+      };
+    }
+  }
+
+  return { valid: true, value: obj as unknown as OpenAIBatchRequest };
 }
@@ -0,0 +1,110 @@
+import { dataDir } from './temp-data-dir';
+import './fake-chatwrapper';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import type http from 'node:http';
+import path from 'node:path';
+import { before, describe, it } from 'node:test';
+import type { OpenAIChatRequest } from '../src/types';
+
+const sha256 = (key: string) => createHash('sha256').update(key).digest('hex');
+
+// The key file is read once, when auth.ts loads
+process.env.API_KEYS_FILE = path.join(dataDir, 'api-keys.json');
+fs.writeFileSync(process.env.API_KEYS_FILE, JSON.stringify({
+  keys: [
+    { name: 'open', sha256: sha256('sk-open') },
+    {
+      name: 'locked',
+      sha256: sha256('sk-locked'),
+      models: ['gemini-2.5-flash'],
+      google_search: false,
+      image_fetch: false,
+      max_output_tokens: 100,
+    },
+  ],
+}));
+
+let auth: typeof import('../src/auth');
+before(async () => {
+  auth = await import('../src/auth');
+});
+
+function request(headers: http.IncomingHttpHeaders) {
+  return { headers } as http.IncomingMessage;
+}
+
+function chat(body: Partial<OpenAIChatRequest>): OpenAIChatRequest {
+  return { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'Hi' }], ...body } as OpenAIChatRequest;
+}
+
+describe('authenticate', () => {
+  it('finds the key from a bearer token or x-api-key', () => {
+    const bearer = auth.authenticate(request({ authorization: 'Bearer sk-open' }));
+    assert.equal(bearer.valid && bearer.value?.name, 'open');
+    const apiKey = auth.authenticate(request({ 'x-api-key': 'sk-locked' }));
+    assert.equal(apiKey.valid && apiKey.value?.name, 'locked');
+  });
+
+  it('refuses missing and unknown keys', () => {
+    for (const headers of [{}, { authorization: 'Bearer sk-wrong' }, { authorization: 'Basic c2stb3Blbg==' }]) {
+      const result = auth.authenticate(request(headers));
+      assert.equal(result.valid, false);
+      assert.equal(!result.valid && result.error.error.code, 'invalid_api_key');
+    }
+  });
+
+  it('looks keys up by name for background work', () => {
+    assert.equal(auth.findKeyByName('locked')?.maxOutputTokens, 100);
+    assert.equal(auth.findKeyByName('gone'), undefined);
+  });
+});
+
+describe('key policies', () => {
+  const key = (name: string) => auth.findKeyByName(name)!;
+
+  it('limits a key to its models', () => {
+    assert.equal(auth.isModelAllowed(key('open'), 'gemini-2.5-pro'), true);
+    assert.equal(auth.isModelAllowed(key('locked'), 'gemini-2.5-pro'), false);
+    assert.equal(auth.isModelAllowed(undefined, 'gemini-2.5-pro'), true);
+    assert.equal(auth.checkModelPolicy(key('locked'), 'gemini-2.5-pro')?.error.error.code, 'model_not_allowed');
+  });
+
+  it('checks the default model when the request names none', () => {
+    assert.equal(auth.applyKeyPolicy(chat({ model: undefined }), key('locked'))?.status, 403);
+  });
+
+  it('refuses built-in tools and remote images the key may not use', () => {
+    const search = auth.applyKeyPolicy(chat({ web_search_options: {} }), key('locked'));
+    assert.equal(search?.error.error.code, 'google_search_not_allowed');
+
+    const image = auth.applyKeyPolicy(chat({
+      messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'https://example.com/a.png' } }] }],
+    }), key('locked'));
+    assert.equal(image?.error.error.code, 'image_fetch_not_allowed');
+
+    const inline = auth.applyKeyPolicy(chat({
+      messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AA==' } }] }],
+    }), key('locked'));
+    assert.equal(inline, null);
+  });
+
+  it('caps output tokens at the key limit', () => {
+    const unset = chat({});
+    assert.equal(auth.applyKeyPolicy(unset, key('locked')), null);
+    assert.equal(unset.max_tokens, 100);
+
+    const over = chat({ max_completion_tokens: 5000 });
+    auth.applyKeyPolicy(over, key('locked'));
+    assert.deepEqual([over.max_completion_tokens, over.max_tokens], [undefined, 100]);
+
+    const under = chat({ max_tokens: 50 });
+    auth.applyKeyPolicy(under, key('locked'));
+    assert.equal(under.max_tokens, 50);
+  });
+
+  it('lets everything through without a key', () => {
+    assert.equal(auth.applyKeyPolicy(chat({ model: 'gemini-2.5-pro', web_search_options: {} }), undefined), null);
+  });
+});
@@ -0,0 +1,196 @@
+import { dataDir } from './temp-data-dir';
+import { generator, textResponse, upstreamError } from './fake-gemini';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { OpenAIBatch } from '../src/types';
+
+process.env.AUTH_TYPE = 'oauth-personal';
+process.env.UPSTREAM_MAX_RETRIES = '0';
+process.env.BATCH_CONCURRENCY = '2';
+process.env.BATCH_MAX_ATTEMPTS = '2';
+process.env.BATCH_RETRY_DELAY_MS = '10';
+
+let batches: typeof import('../src/batches');
+let files: typeof import('../src/files');
+let server: http.Server;
+let base: string;
+
+// Routes /v1/batches like server.ts, with auth off
+before(async () => {
+  batches = await import('../src/batches');
+  files = await import('../src/files');
+  server = http.createServer((req, res) => {
+    const [, id, cancel] = req.url?.match(/^\/v1\/batches(?:\/([^/]+))?(\/cancel)?$/) ?? [];
+    if (!id) void batches.handleCreateBatch(req, res, {});
+    else if (cancel) void batches.handleCancelBatch(res, id, undefined);
+    else void batches.handleGetBatch(res, id, undefined);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/batches`;
+});
+
+after(() => server.close());
+
+// Prompts sent to Gemini, in order
+let prompts: string[];
+
+/** Echoes each prompt, after `gate` resolves if one is set; honours aborts. */
+function echo(gate?: Promise<void>) {
+  generator.generateContent = async ({ contents, config }) => {
+    const prompt = contents[0].parts?.[0].text ?? '';
+    prompts.push(prompt);
+    if (gate) {
+      const aborted = new Promise<never>((_, reject) => {
+        (config.abortSignal as AbortSignal).addEventListener('abort', () => reject(new Error('aborted')));
+      });
+      await Promise.race([gate, aborted]);
+    }
+    return textResponse(`echo: ${prompt}`);
+  };
+}
+
+beforeEach(() => {
+  prompts = [];
+  echo();
+});
+
+const line = (customId: string, body: unknown) =>
+  JSON.stringify({ custom_id: customId, method: 'POST', url: '/v1/chat/completions', body });
+const chat = (prompt: string) => ({ model: 'gemini-2.5-flash', messages: [{ role: 'user', content: prompt }] });
+
+async function inputFile(lines: string[], purpose: 'batch' | 'user_data' = 'batch') {
+  return files.storeFile(Buffer.from(lines.join('\n')), { filename: 'input.jsonl', purpose, key: undefined });
+}
+
+async function createBatch(inputFileId: string) {
+  return fetch(base, {
+    method: 'POST',
+    body: JSON.stringify({ input_file_id: inputFileId, endpoint: '/v1/chat/completions', completion_window: '24h' }),
+  });
+}
+
+async function getBatch(id: string): Promise<OpenAIBatch> {
+  return await (await fetch(`${base}/${id}`)).json() as OpenAIBatch;
+}
+
+/** Polls a batch until it reaches a final status. */
+async function settled(id: string): Promise<OpenAIBatch> {
+  for (let i = 0; i < 250; i++) {
+    const batch = await getBatch(id);
+    if (['completed', 'failed', 'expired', 'cancelled'].includes(batch.status)) return batch;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Batch ${id} did not finish`);
+}
+
+/** The lines of a result file, by custom_id. */
+async function results(fileId: string | null) {
+  const content = fileId ? await files.readStoredFile(fileId, undefined) : undefined;
+  const lines = (content?.data.toString('utf8') ?? '').split('\n').filter(Boolean)
+    .map((l) => JSON.parse(l) as {
+      custom_id: string;
+      response: { status_code: number; body: { choices?: Array<{ message: { content: string } }> } } | null;
+      error: { code: string } | null;
+    });
+  return new Map(lines.map((l) => [l.custom_id, l]));
+}
+
+describe('batches', () => {
+  it('runs every request and writes the output and error files', async () => {
+    const input = await inputFile([line('a', chat('one')), line('b', chat('two')), line('c', { messages: 'nope' })]);
+    const created = await (await createBatch(input.id)).json() as OpenAIBatch;
+    assert.equal(created.status, 'validating');
+
+    const batch = await settled(created.id);
+    assert.equal(batch.status, 'completed');
+    assert.deepEqual(batch.request_counts, { total: 3, completed: 2, failed: 1 });
+
+    const output = await results(batch.output_file_id);
+    assert.equal(output.get('a')?.response?.body.choices?.[0].message.content, 'echo: one');
+    assert.equal(output.get('b')?.response?.body.choices?.[0].message.content, 'echo: two');
+    assert.equal((await results(batch.error_file_id)).get('c')?.response?.status_code, 400);
+  });
+
+  it('tries a request again after a transient failure', async () => {
+    let failures = 1;
+    generator.generateContent = async () => {
+      if (failures-- > 0) throw upstreamError(503);
+      return textResponse('recovered');
+    };
+    const batch = await settled((await (await createBatch((await inputFile([line('a', chat('x'))])).id)).json() as OpenAIBatch).id);
+
+    assert.deepEqual(batch.request_counts, { total: 1, completed: 1, failed: 0 });
+  });
+
+  it('fails a batch whose input has malformed lines', async () => {
+    const input = await inputFile([line('a', chat('x')), 'not json', line('a', chat('y'))]);
+    const batch = await settled((await (await createBatch(input.id)).json() as OpenAIBatch).id);
+
+    assert.equal(batch.status, 'failed');
+    assert.deepEqual(batch.errors?.data.map((e) => [e.line, e.code]), [[2, 'invalid_json_line'], [3, 'duplicate_custom_id']]);
+    assert.deepEqual(prompts, []);
+  });
+
+  it('refuses input files that are missing or not uploaded for batches', async () => {
+    assert.equal((await createBatch('file-missing')).status, 404);
+    assert.equal((await createBatch((await inputFile([line('a', chat('x'))], 'user_data')).id)).status, 400);
+  });
+
+  it('resumes an unfinished batch, running only the requests left', async () => {
+    const input = await inputFile([line('done', chat('first')), line('left', chat('second'))]);
+    const id = 'batch_resumed';
+    const createdAt = Math.floor(Date.now() / 1000);
+    const batch: OpenAIBatch = {
+      id, object: 'batch', endpoint: '/v1/chat/completions', errors: null, input_file_id: input.id,
+      completion_window: '24h', status: 'in_progress', output_file_id: null, error_file_id: null,
+      created_at: createdAt, in_progress_at: createdAt, expires_at: createdAt + 86400, finalizing_at: null,
+      completed_at: null, failed_at: null, expired_at: null, cancelling_at: null, cancelled_at: null,
+      request_counts: { total: 2, completed: 1, failed: 0 }, metadata: null,
+    };
+    await fs.mkdir(path.join(dataDir, 'batches'), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'batches', `${id}.json`), JSON.stringify({ batch }));
+    // The work log as a previous run left it, the last line cut short
+    const finished = { index: 0, failed: false, line: { id: 'batch_req_0', custom_id: 'done', response: null, error: null } };
+    await fs.mkdir(path.join(dataDir, 'batch-work'), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'batch-work', `${id}.jsonl`), `${JSON.stringify(finished)}\n{"index":1,"fai`);
+
+    await batches.resumeBatches();
+    const resumed = await settled(id);
+
+    assert.deepEqual(prompts, ['second']);
+    assert.equal(resumed.status, 'completed');
+    assert.deepEqual(resumed.request_counts, { total: 2, completed: 2, failed: 0 });
+    assert.deepEqual([...(await results(resumed.output_file_id)).keys()].sort(), ['done', 'left']);
+    await assert.rejects(fs.stat(path.join(dataDir, 'batch-work', `${id}.jsonl`)), { code: 'ENOENT' });
+  });
+
+  it('cancels a queued batch before it runs and a running one mid-request', async () => {
+    let release!: () => void;
+    echo(new Promise((resolve) => (release = resolve)));
+    const running = await (await createBatch((await inputFile([line('a', chat('running'))])).id)).json() as OpenAIBatch;
+    const queued = await (await createBatch((await inputFile([line('b', chat('queued'))])).id)).json() as OpenAIBatch;
+    while (prompts.length === 0) await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const cancelQueued = await fetch(`${base}/${queued.id}/cancel`, { method: 'POST' });
+    assert.equal((await cancelQueued.json() as OpenAIBatch).status, 'cancelling');
+    release();
+    assert.equal((await settled(running.id)).status, 'completed');
+
+    const cancelled = await settled(queued.id);
+    assert.equal(cancelled.status, 'cancelled');
+    assert.equal((await results(cancelled.error_file_id)).get('b')?.error?.code, 'batch_cancelled');
+    assert.deepEqual(prompts, ['running']);
+
+    echo(new Promise(() => undefined));
+    const stuck = await (await createBatch((await inputFile([line('c', chat('stuck'))])).id)).json() as OpenAIBatch;
+    while (prompts.length < 2) await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal((await fetch(`${base}/${stuck.id}/cancel`, { method: 'POST' })).status, 200);
+    assert.equal((await settled(stuck.id)).status, 'cancelled');
+
+    assert.equal((await fetch(`${base}/${stuck.id}/cancel`, { method: 'POST' })).status, 409);
+  });
+});
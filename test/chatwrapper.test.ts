@@ -0,0 +1,133 @@
+import './temp-data-dir';
+import { generator, textResponse, upstreamError } from './fake-gemini';
+import assert from 'node:assert/strict';
+import { before, beforeEach, describe, it } from 'node:test';
+import type { ApiKey, GeminiStreamChunk, RequestContext } from '../src/types';
+
+process.env.AUTH_TYPE = 'oauth-personal';
+process.env.UPSTREAM_MAX_RETRIES = '2';
+process.env.UPSTREAM_RETRY_BASE_MS = '10';
+process.env.UPSTREAM_RETRY_MAX_MS = '50';
+process.env.MODEL_FALLBACKS = 'gemini-2.5-pro,gemini-2.5-flash,gemini-2.5-flash-lite';
+
+let chatwrapper: typeof import('../src/chatwrapper');
+before(async () => {
+  chatwrapper = await import('../src/chatwrapper');
+});
+
+// Models asked for, in order
+let calls: string[];
+
+/** Answers with each model's outcome: an error to throw, or text. */
+function respond(outcomes: Record<string, Array<Error | string>>) {
+  generator.generateContent = async ({ model }) => {
+    calls.push(model);
+    const outcome = outcomes[model]?.shift() ?? `from ${model}`;
+    if (outcome instanceof Error) throw outcome;
+    return textResponse(outcome);
+  };
+}
+
+const request = (model: string) => ({ model, contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] });
+const quotaExhausted = () => upstreamError(429, 'You have exhausted your capacity on this model');
+
+beforeEach(() => {
+  calls = [];
+});
+
+describe('retries', () => {
+  it('retries transient errors on the same model', async () => {
+    respond({ 'gemini-2.5-pro': [upstreamError(503), upstreamError(500)] });
+    const response = await chatwrapper.sendChat(request('gemini-2.5-pro'));
+
+    assert.deepEqual(calls, ['gemini-2.5-pro', 'gemini-2.5-pro', 'gemini-2.5-pro']);
+    assert.equal(response.candidates?.[0].content?.parts?.[0].text, 'from gemini-2.5-pro');
+  });
+
+  it('gives up after UPSTREAM_MAX_RETRIES', async () => {
+    respond({ 'gemini-2.5-custom': [upstreamError(500), upstreamError(500), upstreamError(500)] });
+    await assert.rejects(chatwrapper.sendChat(request('gemini-2.5-custom')), { status: 500 });
+    assert.equal(calls.length, 3);
+  });
+
+  it('does not retry client errors', async () => {
+    respond({ 'gemini-2.5-pro': [upstreamError(400)] });
+    await assert.rejects(chatwrapper.sendChat(request('gemini-2.5-pro')), { status: 400 });
+    assert.deepEqual(calls, ['gemini-2.5-pro']);
+  });
+
+  it('stops backing off when the client goes away', async () => {
+    respond({ 'gemini-2.5-custom': [upstreamError(503, 'Please retry in 40ms')] });
+    const controller = new AbortController();
+    const sent = chatwrapper.sendChat(request('gemini-2.5-custom'), { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await assert.rejects(sent, { name: 'AbortError' });
+    assert.equal(calls.length, 1);
+  });
+});
+
+describe('model fallback', () => {
+  it('falls back along the chain on exhausted quota and records the serving model', async () => {
+    respond({ 'gemini-2.5-pro': [quotaExhausted()] });
+    const fallbacks: string[] = [];
+    const context: RequestContext = { onFallback: (model) => fallbacks.push(model) };
+    const response = await chatwrapper.sendChat(request('gemini-2.5-pro'), context);
+
+    assert.deepEqual(calls, ['gemini-2.5-pro', 'gemini-2.5-flash']);
+    assert.equal(context.servedModel, 'gemini-2.5-flash');
+    assert.equal(response.modelVersion, 'gemini-2.5-flash');
+    assert.deepEqual(fallbacks, ['gemini-2.5-flash']);
+  });
+
+  it('falls back once retries on an overloaded model run out', async () => {
+    respond({ 'gemini-2.5-flash': [upstreamError(503), upstreamError(503), upstreamError(503)] });
+    await chatwrapper.sendChat(request('gemini-2.5-flash'));
+    assert.deepEqual(calls, ['gemini-2.5-flash', 'gemini-2.5-flash', 'gemini-2.5-flash', 'gemini-2.5-flash-lite']);
+  });
+
+  it('falls back straight away when upstream asks for a wait beyond UPSTREAM_RETRY_MAX_MS', async () => {
+    respond({ 'gemini-2.5-pro': [upstreamError(429, 'Please retry in 30s')] });
+    await chatwrapper.sendChat(request('gemini-2.5-pro'));
+    assert.deepEqual(calls, ['gemini-2.5-pro', 'gemini-2.5-flash']);
+  });
+
+  it('only moves down the chain', async () => {
+    respond({ 'gemini-2.5-flash-lite': [quotaExhausted()] });
+    await assert.rejects(chatwrapper.sendChat(request('gemini-2.5-flash-lite')), { status: 429 });
+    assert.deepEqual(calls, ['gemini-2.5-flash-lite']);
+  });
+
+  it('skips models the key may not use', async () => {
+    respond({ 'gemini-2.5-pro': [quotaExhausted()] });
+    const key = { name: 'limited', models: ['gemini-2.5-pro', 'gemini-2.5-flash-lite'] } as ApiKey;
+    await chatwrapper.sendChat(request('gemini-2.5-pro'), { key });
+    assert.deepEqual(calls, ['gemini-2.5-pro', 'gemini-2.5-flash-lite']);
+  });
+
+  it('does not fall back on errors another model would repeat', async () => {
+    respond({ 'gemini-2.5-pro': [upstreamError(400)] });
+    await assert.rejects(chatwrapper.sendChat(request('gemini-2.5-pro')), { status: 400 });
+    assert.deepEqual(calls, ['gemini-2.5-pro']);
+  });
+
+  it('falls back in a stream until the first chunk arrives', async () => {
+    generator.generateContentStream = async ({ model }) => {
+      calls.push(model);
+      if (model === 'gemini-2.5-pro') throw quotaExhausted();
+      return (async function* (): AsyncGenerator<GeminiStreamChunk> {
+        yield textResponse('one');
+        yield textResponse('two');
+      })();
+    };
+    const context: RequestContext = {};
+    const texts: string[] = [];
+    for await (const chunk of await chatwrapper.sendChatStream(request('gemini-2.5-pro'), context)) {
+      texts.push(chunk.candidates?.[0].content?.parts?.[0].text ?? '');
+    }
+
+    assert.deepEqual(calls, ['gemini-2.5-pro', 'gemini-2.5-flash']);
+    assert.deepEqual(texts, ['one', 'two']);
+    assert.equal(context.servedModel, 'gemini-2.5-flash');
+  });
+});
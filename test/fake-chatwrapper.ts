@@ -0,0 +1,18 @@
+/* ------------------------------------------------------------------ */
+/*  fake-chatwrapper.ts – Stand-in Gemini client for unit tests        */
+/* ------------------------------------------------------------------ */
+
+// chatwrapper.ts signs in to Gemini as soon as it is loaded. Tests of
+// modules that only ask it for the default model import this first, so
+// they get a stand-in from the module cache instead.
+const filename = require.resolve('../src/chatwrapper');
+
+require.cache[filename] = {
+  id: filename,
+  filename,
+  loaded: true,
+  exports: {
+    getModel: () => 'gemini-2.5-pro',
+    getGeminiApiKey: () => undefined,
+  },
+} as NodeJS.Module;
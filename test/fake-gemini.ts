@@ -0,0 +1,55 @@
+/* ------------------------------------------------------------------ */
+/*  fake-gemini.ts – Stand-in Gemini CLI content generator for tests  */
+/* ------------------------------------------------------------------ */
+import Module from 'module';
+import type { GeminiContent, GeminiEmbedResponse, GeminiResponse, GeminiStreamChunk } from '../src/types';
+
+interface GenerateParams {
+  model: string;
+  contents: GeminiContent[];
+  config: Record<string, unknown>;
+}
+
+/**
+ * The content generator chatwrapper.ts is given. Tests set the methods
+ * their calls reach.
+ */
+export const generator: {
+  generateContent?: (params: GenerateParams) => Promise<GeminiResponse>;
+  generateContentStream?: (params: GenerateParams) => Promise<AsyncIterable<GeminiStreamChunk>>;
+  countTokens?: (params: { model: string; contents: GeminiContent[] }) => Promise<{ totalTokens?: number }>;
+  embedContent?: (params: { model: string; contents: string[] }) => Promise<GeminiEmbedResponse>;
+} = {};
+
+// gemini-cli-core signs in when the generator is created; tests of
+// modules that call Gemini import this first, so chatwrapper.ts gets
+// the generator above instead
+const fakes: Record<string, unknown> = {
+  '@google/gemini-cli-core/dist/src/core/contentGenerator.js': {
+    AuthType: {},
+    createContentGeneratorConfig: async (model?: string) => ({ model: model ?? 'gemini-2.5-pro' }),
+    createContentGenerator: async () => generator,
+  },
+  '@google/gemini-cli-core/dist/src/config/models.js': {
+    VALID_GEMINI_MODELS: new Set(['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite']),
+  },
+};
+
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = (request, ...rest) => (request in fakes ? fakes[request] : load(request, ...rest));
+
+/**
+ * An error shaped like the ones the Gemini client throws for an HTTP
+ * status.
+ */
+export function upstreamError(status: number, message = `HTTP ${status}`): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * A response with one candidate that answers `text`.
+ */
+export function textResponse(text: string): GeminiResponse {
+  return { candidates: [{ content: { parts: [{ text }] }, finishReason: 'STOP' }] };
+}
@@ -0,0 +1,143 @@
+import './temp-data-dir';
+import './fake-chatwrapper';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import type { ApiKey, OpenAIFile } from '../src/types';
+
+process.env.FILES_MAX_BYTES = '1000';
+process.env.FILES_QUOTA_BYTES = '2500';
+process.env.FILES_GEMINI_UPLOAD = 'false';
+
+let files: typeof import('../src/files');
+let errors: typeof import('../src/errors');
+let server: http.Server;
+let base: string;
+
+// Routes /v1/files like server.ts; the x-key header names the caller's key
+before(async () => {
+  files = await import('../src/files');
+  errors = await import('../src/errors');
+  server = http.createServer((req, res) => {
+    const name = req.headers['x-key'];
+    const key = typeof name === 'string' ? { name } as ApiKey : undefined;
+    const [, id, content] = req.url?.match(/^\/v1\/files(?:\/([^/]+))?(\/content)?$/) ?? [];
+    if (!id && req.method === 'POST') void files.handleCreateFile(req, res, { key });
+    else if (content) void files.handleGetFileContent(res, id, key);
+    else if (req.method === 'DELETE') void files.handleDeleteFile(res, id, key);
+    else void files.handleGetFile(res, id, key);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/files`;
+});
+
+after(() => server.close());
+
+function upload(key: string | undefined, data: string, fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.set('file', new Blob([data], { type: 'text/plain' }), fields.filename ?? 'notes.txt');
+  for (const [name, value] of Object.entries({ purpose: 'user_data', ...fields })) {
+    if (name !== 'filename') form.set(name, value);
+  }
+  return fetch(base, { method: 'POST', body: form, headers: key ? { 'x-key': key } : {} });
+}
+
+async function uploaded(key: string | undefined, data: string, fields?: Record<string, string>): Promise<OpenAIFile> {
+  const res = await upload(key, data, fields);
+  assert.equal(res.status, 200);
+  return await res.json() as OpenAIFile;
+}
+
+const get = (path: string, key?: string, method = 'GET') => fetch(`${base}/${path}`, {
+  method,
+  headers: key ? { 'x-key': key } : {},
+});
+
+describe('/v1/files', () => {
+  it('stores an upload and serves its metadata and content', async () => {
+    const file = await uploaded('alice', 'hello');
+    assert.match(file.id, /^file-[0-9a-f]{32}$/);
+    assert.equal(file.bytes, 5);
+    assert.equal(file.filename, 'notes.txt');
+    assert.equal(file.purpose, 'user_data');
+
+    assert.deepEqual(await (await get(file.id, 'alice')).json(), file);
+
+    const content = await get(`${file.id}/content`, 'alice');
+    assert.equal(await content.text(), 'hello');
+    assert.equal(content.headers.get('content-type'), 'application/octet-stream');
+    assert.equal(content.headers.get('content-disposition'), 'attachment; filename*=UTF-8\'\'notes.txt');
+    assert.equal(content.headers.get('x-content-type-options'), 'nosniff');
+  });
+
+  it('hides files from other keys', async () => {
+    const file = await uploaded('alice', 'private');
+    for (const key of ['bob', undefined]) {
+      assert.equal((await get(file.id, key)).status, 404);
+      assert.equal((await get(`${file.id}/content`, key)).status, 404);
+      assert.equal((await get(file.id, key, 'DELETE')).status, 404);
+    }
+    assert.equal((await get(file.id, 'alice')).status, 200);
+  });
+
+  it('deletes a file', async () => {
+    const file = await uploaded('alice', 'temporary');
+    assert.deepEqual(await (await get(file.id, 'alice', 'DELETE')).json(), { id: file.id, object: 'file', deleted: true });
+    assert.equal((await get(file.id, 'alice')).status, 404);
+  });
+
+  it('treats an expired file as missing', async () => {
+    const file = await uploaded('alice', 'brief', { 'expires_after[anchor]': 'created_at', 'expires_after[seconds]': '0' });
+    assert.equal(file.expires_at, file.created_at);
+    assert.equal((await get(file.id, 'alice')).status, 404);
+  });
+
+  it('validates the form', async () => {
+    assert.equal((await upload('alice', 'x', { purpose: 'homework' })).status, 400);
+    assert.equal((await upload('alice', 'x', { 'expires_after[seconds]': 'soon' })).status, 400);
+    const form = new FormData();
+    form.set('purpose', 'user_data');
+    assert.equal((await fetch(base, { method: 'POST', body: form })).status, 400);
+    assert.equal((await fetch(base, { method: 'POST', body: '{}' })).status, 400);
+  });
+
+  it('refuses files over FILES_MAX_BYTES with a 413', async () => {
+    const res = await upload('alice', 'x'.repeat(1001));
+    assert.equal(res.status, 413);
+    assert.equal((await res.json() as { error: { code: string } }).error.code, 'file_too_large');
+  });
+
+  it('answers a body far over the limit with a 413 before closing the connection', async () => {
+    const res = await upload('alice', 'x'.repeat(200 * 1024));
+    assert.equal(res.status, 413);
+    assert.equal(res.headers.get('connection'), 'close');
+  });
+
+  it('enforces the storage quota per key', async () => {
+    await uploaded('carol', 'a'.repeat(900));
+    await uploaded('carol', 'b'.repeat(900));
+    const res = await upload('carol', 'c'.repeat(900));
+    assert.equal(res.status, 400);
+    assert.equal((await res.json() as { error: { code: string } }).error.code, 'quota_exceeded');
+    await uploaded('dave', 'd'.repeat(900));
+  });
+});
+
+describe('resolveFilePart', () => {
+  it('sends a stored file inline', async () => {
+    const file = await uploaded('erin', 'inline me');
+    assert.deepEqual(await files.resolveFilePart(file.id, { key: { name: 'erin' } as ApiKey }), {
+      inlineData: { mimeType: 'text/plain', data: Buffer.from('inline me').toString('base64') },
+    });
+  });
+
+  it('refuses missing files and types Gemini cannot read', async () => {
+    const missing = files.resolveFilePart('file-missing', {});
+    await assert.rejects(missing, (err: unknown) => err instanceof errors.FileReferenceError && err.code === 'file_not_found');
+
+    const binary = await files.storeFile(Buffer.from([0, 1, 2]), { filename: 'blob.bin', purpose: 'user_data', key: undefined });
+    await assert.rejects(files.resolveFilePart(binary.id),
+      (err: unknown) => err instanceof errors.FileReferenceError && err.code === 'unsupported_mime_type');
+  });
+});
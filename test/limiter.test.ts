@@ -0,0 +1,181 @@
+import './temp-data-dir';
+import { generator, textResponse, upstreamError } from './fake-gemini';
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { ApiKey, RequestContext, RequestPriority } from '../src/types';
+
+process.env.AUTH_TYPE = 'oauth-personal';
+process.env.CONCURRENCY_LIMIT_MODELS = JSON.stringify({ m: 1, other: 1 });
+process.env.QUEUE_MAX_DEPTH = '3';
+process.env.QUEUE_TIMEOUT_MS = '200';
+process.env.UPSTREAM_RETRY_BASE_MS = '10';
+
+let limiter: typeof import('../src/limiter');
+let chatwrapper: typeof import('../src/chatwrapper');
+let errors: typeof import('../src/errors');
+before(async () => {
+  limiter = await import('../src/limiter');
+  chatwrapper = await import('../src/chatwrapper');
+  errors = await import('../src/errors');
+});
+
+function context(client: string, priority?: RequestPriority): RequestContext {
+  return { key: { name: client } as ApiKey, priority };
+}
+
+/** Waits for a slot, notes the label once admitted, then gives it back. */
+function admitAndRelease(order: string[], label: string, ctx: RequestContext) {
+  return limiter.acquireSlot('m', ctx).then((release) => {
+    order.push(label);
+    release();
+  });
+}
+
+const queueRejected = (code: string) => (err: unknown) => err instanceof errors.QueueRejectedError && err.code === code;
+
+describe('acquireSlot', () => {
+  it('admits calls straight away while the model has room', async () => {
+    const positions: number[] = [];
+    const release = await limiter.acquireSlot('m', { onQueued: (position) => positions.push(position) });
+    const unrelated = await limiter.acquireSlot('uncapped');
+
+    assert.deepEqual(positions, [0]);
+    release();
+    unrelated();
+  });
+
+  it('admits higher priority classes first', async () => {
+    const release = await limiter.acquireSlot('m', context('holder'));
+    const order: string[] = [];
+    const admitted = Promise.all([
+      admitAndRelease(order, 'low', context('a', 'low')),
+      admitAndRelease(order, 'normal', context('b')),
+      admitAndRelease(order, 'high', context('c', 'high')),
+    ]);
+    release();
+    await admitted;
+
+    assert.deepEqual(order, ['high', 'normal', 'low']);
+  });
+
+  it('shares slots fairly between clients of the same class', async () => {
+    const holding = await limiter.acquireSlot('m', context('busy'));
+    const elsewhere = await limiter.acquireSlot('other', context('busy'));
+    const order: string[] = [];
+    const admitted = Promise.all([
+      admitAndRelease(order, 'busy', context('busy')),
+      admitAndRelease(order, 'idle', context('idle')),
+    ]);
+    holding();
+    await admitted;
+    elsewhere();
+
+    assert.deepEqual(order, ['idle', 'busy']);
+  });
+
+  it('reports the queue position and wait of a queued call', async () => {
+    const release = await limiter.acquireSlot('m');
+    let queued: [number, number] | undefined;
+    const waiting = limiter.acquireSlot('m', { onQueued: (position, waitMs) => (queued = [position, waitMs]) });
+    await sleep(20);
+    release();
+    (await waiting)();
+
+    assert.equal(queued?.[0], 1);
+    assert.ok(queued![1] >= 15);
+  });
+
+  it('refuses calls once QUEUE_MAX_DEPTH are waiting', async () => {
+    const release = await limiter.acquireSlot('m');
+    const order: string[] = [];
+    const admitted = Promise.all(['1', '2', '3'].map((label) => admitAndRelease(order, label, {})));
+    await assert.rejects(limiter.acquireSlot('m'), queueRejected('queue_full'));
+    release();
+    await admitted;
+
+    assert.deepEqual(order, ['1', '2', '3']);
+  });
+
+  it('refuses calls that wait past QUEUE_TIMEOUT_MS', async () => {
+    const release = await limiter.acquireSlot('m');
+    await assert.rejects(limiter.acquireSlot('m'), queueRejected('queue_timeout'));
+    release();
+  });
+
+  it('drops a waiting call whose client went away', async () => {
+    const release = await limiter.acquireSlot('m');
+    const controller = new AbortController();
+    const waiting = limiter.acquireSlot('m', { signal: controller.signal });
+    controller.abort();
+    await assert.rejects(waiting, { name: 'AbortError' });
+    release();
+
+    assert.match(limiter.formatQueueMetrics(), /^bridge_queue_depth 0$/m);
+  });
+
+  it('counts admissions and refusals in the metrics', () => {
+    const metrics = limiter.formatQueueMetrics();
+    assert.match(metrics, /^bridge_requests_active 0$/m);
+    assert.match(metrics, /^bridge_queue_rejected_total\{reason="queue_full"\} 1$/m);
+    assert.match(metrics, /^bridge_queue_rejected_total\{reason="queue_timeout"\} 1$/m);
+  });
+});
+
+describe('resolvePriority', () => {
+  it('takes the requested class, never above the key', () => {
+    const key = { name: 'k', priority: 'normal' } as ApiKey;
+    assert.equal(limiter.resolvePriority(key, 'low'), 'low');
+    assert.equal(limiter.resolvePriority(key, 'high'), 'normal');
+    assert.equal(limiter.resolvePriority(key, 'urgent'), 'normal');
+    assert.equal(limiter.resolvePriority(undefined, ' HIGH '), 'high');
+    assert.equal(limiter.resolvePriority(undefined, undefined), 'normal');
+  });
+});
+
+describe('Gemini calls', () => {
+  const request = (text: string) => ({ model: 'm', contents: [{ role: 'user', parts: [{ text }] }] });
+
+  it('give their slot to queued calls while backing off', async () => {
+    const order: string[] = [];
+    let failFirst = true;
+    generator.generateContent = async ({ contents }) => {
+      const text = contents[0].parts?.[0].text ?? '';
+      order.push(text);
+      if (text === 'retried' && failFirst) {
+        failFirst = false;
+        throw upstreamError(503, 'Please retry in 100ms');
+      }
+      return textResponse(text);
+    };
+    const retried = chatwrapper.sendChat(request('retried'));
+    await sleep(20);
+    await chatwrapper.sendChat(request('queued'));
+    await retried;
+
+    assert.deepEqual(order, ['retried', 'queued', 'retried']);
+  });
+
+  it('count tokens and embed only once they have a slot', async () => {
+    const called: string[] = [];
+    generator.countTokens = async () => {
+      called.push('countTokens');
+      return { totalTokens: 3 };
+    };
+    generator.embedContent = async () => {
+      called.push('embedContent');
+      return { embeddings: [{ values: [1] }] };
+    };
+
+    const release = await limiter.acquireSlot('m');
+    const counted = chatwrapper.countTokens(request('count me'));
+    const embedded = chatwrapper.sendEmbed({ model: 'm', texts: ['embed me'] });
+    await sleep(20);
+    assert.deepEqual(called, []);
+
+    release();
+    assert.equal(await counted, 3);
+    await embedded;
+    assert.deepEqual(called, ['countTokens', 'embedContent']);
+  });
+});
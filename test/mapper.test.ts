@@ -0,0 +1,129 @@
+import './fake-chatwrapper';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { candidateText, createStreamMapper, mapFinishReason } from '../src/mapper';
+import type { GeminiPart, GeminiStreamChunk, ResponseOptions } from '../src/types';
+
+const OPTIONS: ResponseOptions = { parallelToolCalls: true, reasoningOutput: 'inline', citationFootnotes: false };
+
+function chunk(parts: GeminiPart[], finishReason?: string): GeminiStreamChunk {
+  return { candidates: [{ content: { parts }, finishReason }] };
+}
+
+describe('mapFinishReason', () => {
+  it('maps Gemini finish reasons to OpenAI ones', () => {
+    assert.equal(mapFinishReason('STOP', false), 'stop');
+    assert.equal(mapFinishReason(undefined, false), 'stop');
+    assert.equal(mapFinishReason('MAX_TOKENS', false), 'length');
+    for (const reason of ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']) {
+      assert.equal(mapFinishReason(reason, false), 'content_filter', reason);
+    }
+    assert.equal(mapFinishReason('OTHER', false), 'stop');
+  });
+
+  it('reports tool_calls only when there are tool calls', () => {
+    assert.equal(mapFinishReason('MALFORMED_FUNCTION_CALL', false), 'stop');
+    assert.equal(mapFinishReason('UNEXPECTED_TOOL_CALL', false), 'stop');
+  });
+
+  it('reports tool_calls whenever the response has tool calls', () => {
+    assert.equal(mapFinishReason('STOP', true), 'tool_calls');
+    assert.equal(mapFinishReason('MAX_TOKENS', true), 'tool_calls');
+  });
+});
+
+describe('createStreamMapper', () => {
+  it('streams each function call as a name delta, then an arguments delta', () => {
+    const mapper = createStreamMapper(OPTIONS);
+    const out = mapper.mapChunk(chunk([
+      { functionCall: { id: 'call_a', name: 'get_weather', args: { city: 'Paris' } } },
+      { functionCall: { id: 'call_b', name: 'get_time', args: {} } },
+    ], 'STOP'));
+
+    assert.deepEqual(out.map((c) => c.choices[0].delta.tool_calls), [
+      [{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '' } }],
+      [{ index: 0, function: { arguments: '{"city":"Paris"}' } }],
+      [{ index: 1, id: 'call_b', type: 'function', function: { name: 'get_time', arguments: '' } }],
+      [{ index: 1, function: { arguments: '{}' } }],
+    ]);
+    assert.equal(mapper.hasToolCalls(), true);
+    assert.equal(mapper.finish().choices[0].finish_reason, 'tool_calls');
+  });
+
+  it('keeps tool call indexes stable across chunks', () => {
+    const mapper = createStreamMapper(OPTIONS);
+    mapper.mapChunk(chunk([{ functionCall: { name: 'first', args: {} } }]));
+    const out = mapper.mapChunk(chunk([{ functionCall: { name: 'second', args: {} } }]));
+
+    assert.equal(out[0].choices[0].delta.tool_calls?.[0].index, 1);
+  });
+
+  it('drops calls after the first when parallel tool calls are off', () => {
+    const mapper = createStreamMapper({ ...OPTIONS, parallelToolCalls: false });
+    const out = mapper.mapChunk(chunk([
+      { functionCall: { name: 'first', args: {} } },
+      { functionCall: { name: 'second', args: {} } },
+    ]));
+
+    const names = out.flatMap((c) => c.choices[0].delta.tool_calls ?? []).map((t) => t.function?.name);
+    assert.deepEqual(names, ['first', undefined]);
+  });
+
+  it('sends text ahead of the tool calls from the same chunk', () => {
+    const mapper = createStreamMapper(OPTIONS);
+    const out = mapper.mapChunk(chunk([
+      { text: 'Checking.' },
+      { functionCall: { name: 'lookup', args: {} } },
+    ]));
+
+    assert.equal(out[0].choices[0].delta.content, 'Checking.');
+    assert.equal(out[0].choices[0].delta.tool_calls, undefined);
+    assert.equal(out.length, 3);
+  });
+
+  it('wraps inline thoughts in think tags and closes them at the end', () => {
+    const mapper = createStreamMapper(OPTIONS);
+    const first = mapper.mapChunk(chunk([{ text: 'Hmm', thought: true }]));
+    const second = mapper.mapChunk(chunk([{ text: 'more', thought: true }]));
+
+    assert.equal(first[0].choices[0].delta.content, '<think>Hmm');
+    assert.equal(second[0].choices[0].delta.content, 'more');
+    assert.equal(mapper.finish().choices[0].delta.content, '</think>');
+    assert.equal(mapper.text(), '');
+  });
+
+  it('reports the finish reason only in the closing chunk', () => {
+    const mapper = createStreamMapper(OPTIONS);
+    const out = mapper.mapChunk(chunk([{ text: 'cut o' }], 'MAX_TOKENS'));
+
+    assert.equal(out[0].choices[0].finish_reason, null);
+    assert.equal(mapper.finish().choices[0].finish_reason, 'length');
+  });
+
+  it('reports a prompt blocked mid-stream as content_filter', () => {
+    const mapper = createStreamMapper(OPTIONS);
+    mapper.mapChunk({ promptFeedback: { blockReason: 'SAFETY' } });
+
+    assert.equal(mapper.finish().choices[0].finish_reason, 'content_filter');
+  });
+});
+
+describe('candidateText', () => {
+  it('returns the answer without thoughts or rendered code execution', () => {
+    assert.equal(candidateText({
+      content: {
+        parts: [
+          { text: 'Plan', thought: true },
+          { executableCode: { language: 'PYTHON', code: 'print(1)' } },
+          { codeExecutionResult: { outcome: 'OUTCOME_OK', output: '1' } },
+          { text: '{"a":' },
+          { text: '1}' },
+        ],
+      },
+    }), '{"a":1}');
+  });
+
+  it('is undefined for a candidate that calls functions', () => {
+    assert.equal(candidateText({ content: { parts: [{ text: 'Hi' }, { functionCall: { name: 'f', args: {} } }] } }), undefined);
+  });
+});
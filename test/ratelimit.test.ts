@@ -0,0 +1,130 @@
+import { dataDir } from './temp-data-dir';
+import './fake-chatwrapper';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import type http from 'node:http';
+import path from 'node:path';
+import { before, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { ApiKey, RateLimits, RequestContext } from '../src/types';
+
+// Counters left by a previous run, read when ratelimit.ts loads
+const stateFile = path.join(dataDir, 'ratelimits.json');
+fs.writeFileSync(stateFile, JSON.stringify({ buckets: { 'restored:rpm': { level: 0, updated: Date.now() } } }));
+
+let ratelimit: typeof import('../src/ratelimit');
+before(async () => {
+  ratelimit = await import('../src/ratelimit');
+});
+
+function context(name: string, rateLimits?: RateLimits, modelRateLimits?: Record<string, RateLimits>): RequestContext {
+  return { key: { name, rateLimits, modelRateLimits } as ApiKey };
+}
+
+/** A response that only records the headers set on it. */
+function response() {
+  const headers: Record<string, string> = {};
+  const res = { setHeader: (name: string, value: string) => (headers[name] = value) } as unknown as http.ServerResponse;
+  return { res, headers };
+}
+
+/** Uses up a client's requests; the bucket refills while this runs, so it goes until refused. */
+function exhaust(ctx: RequestContext) {
+  while (ratelimit.checkRateLimit(response().res, ctx, 'gemini-2.5-pro') === null) {
+    // Keep going
+  }
+}
+
+describe('parseRateLimits', () => {
+  it('reads the JSON field names', () => {
+    assert.deepEqual(ratelimit.parseRateLimits({ requests_per_minute: 5, tokens_per_day: 1000 }, 'x'),
+      { requestsPerMinute: 5, tokensPerDay: 1000 });
+  });
+
+  it('throws on anything but positive integers', () => {
+    assert.throws(() => ratelimit.parseRateLimits({ requests_per_minute: 0 }, 'x'), /x\.requests_per_minute/);
+    assert.throws(() => ratelimit.parseRateLimits({ tokens_per_minute: 1.5 }, 'x'), /x\.tokens_per_minute/);
+    assert.throws(() => ratelimit.parseRateLimits(null, 'x'), /x must be an object/);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('admits requests until the bucket is empty, then refuses with Retry-After', () => {
+    const ctx = context('rpm', { requestsPerMinute: 2 });
+    const first = response();
+    assert.equal(ratelimit.checkRateLimit(first.res, ctx, 'gemini-2.5-pro'), null);
+    assert.equal(first.headers['x-ratelimit-limit-requests'], '2');
+    assert.equal(first.headers['x-ratelimit-remaining-requests'], '1');
+    assert.equal(ratelimit.checkRateLimit(response().res, ctx, 'gemini-2.5-pro'), null);
+
+    const refused = response();
+    const denied = ratelimit.checkRateLimit(refused.res, ctx, 'gemini-2.5-pro');
+    assert.equal(denied?.status, 429);
+    assert.equal(denied?.error.error.code, 'rate_limit_exceeded');
+    assert.equal(refused.headers['Retry-After'], '30');
+    assert.equal(refused.headers['x-ratelimit-remaining-requests'], '0');
+  });
+
+  it('refills the bucket over time', async () => {
+    // 1200 per minute is one every 50ms
+    const ctx = context('refill', { requestsPerMinute: 1200 });
+    exhaust(ctx);
+
+    await sleep(120);
+    assert.equal(ratelimit.checkRateLimit(response().res, ctx, 'gemini-2.5-pro'), null);
+  });
+
+  it('charges tokens after the response and refuses once they run out', () => {
+    const ctx = context('tpm', { tokensPerMinute: 100 });
+    assert.equal(ratelimit.checkRateLimit(response().res, ctx, 'gemini-2.5-pro'), null);
+    ctx.onUsage?.({ promptTokenCount: 80, candidatesTokenCount: 70 });
+
+    const refused = response();
+    const denied = ratelimit.checkRateLimit(refused.res, context('tpm', { tokensPerMinute: 100 }), 'gemini-2.5-pro');
+    assert.equal(denied?.status, 429);
+    assert.equal(denied?.error.error.type, 'tokens');
+    assert.equal(refused.headers['x-ratelimit-remaining-tokens'], '0');
+  });
+
+  it('applies per-model limits on top of the client-wide ones', () => {
+    const ctx = () => context('models', { requestsPerMinute: 100 }, { 'gemini-2.5-pro': { requestsPerMinute: 1 } });
+    assert.equal(ratelimit.checkRateLimit(response().res, ctx(), 'gemini-2.5-pro'), null);
+    assert.equal(ratelimit.checkRateLimit(response().res, ctx(), 'gemini-2.5-pro')?.status, 429);
+    assert.equal(ratelimit.checkRateLimit(response().res, ctx(), 'gemini-2.5-flash'), null);
+  });
+
+  it('keeps counting from the state a previous run saved', () => {
+    assert.equal(ratelimit.checkRateLimit(response().res, context('restored', { requestsPerMinute: 1 }), 'm')?.status, 429);
+  });
+
+  it('saves the counters to the state file', async () => {
+    ratelimit.checkRateLimit(response().res, context('saved', { requestsPerMinute: 10 }), 'gemini-2.5-pro');
+    await sleep(1_200);
+
+    const state = JSON.parse(fs.readFileSync(stateFile, 'utf8')) as { buckets: Record<string, { level: number }> };
+    assert.ok(Math.abs(state.buckets['saved:rpm'].level - 9) < 0.01);
+  });
+
+  it('does nothing without limits', () => {
+    const { res, headers } = response();
+    assert.equal(ratelimit.checkRateLimit(res, context('unlimited'), 'gemini-2.5-pro'), null);
+    assert.deepEqual(headers, {});
+  });
+});
+
+describe('waitForRateLimit', () => {
+  it('waits for the bucket to refill instead of refusing', async () => {
+    const ctx = context('waiting', { requestsPerMinute: 1200 });
+    exhaust(ctx);
+
+    await ratelimit.waitForRateLimit(ctx, 'gemini-2.5-pro');
+    // It took the unit that came back
+    assert.equal(ratelimit.checkRateLimit(response().res, ctx, 'gemini-2.5-pro')?.status, 429);
+  });
+
+  it('gives up when the signal aborts', async () => {
+    const ctx = context('abandoned', { requestsPerMinute: 1 });
+    await ratelimit.waitForRateLimit(ctx, 'gemini-2.5-pro');
+    await assert.rejects(ratelimit.waitForRateLimit(ctx, 'gemini-2.5-pro', AbortSignal.timeout(50)), { name: 'AbortError' });
+  });
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fetchAndEncode, ImageFetchError, isBlockedAddress } from '../src/remoteimage';
+
+describe('isBlockedAddress', () => {
+  it('blocks private, loopback, link-local and reserved IPv4 ranges', () => {
+    for (const address of ['0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1',
+      '172.31.255.255', '192.168.1.1', '198.18.0.1', '224.0.0.1', '255.255.255.255']) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+  });
+
+  it('blocks loopback, unique local, link-local and multicast IPv6', () => {
+    for (const address of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'ff02::1', '64:ff9b:1::1']) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+  });
+
+  it('checks IPv4 addresses embedded in IPv6 as IPv4, however they are written', () => {
+    for (const address of ['::ffff:127.0.0.1', '::ffff:7f00:1', '0:0:0:0:0:ffff:a00:1', '::127.0.0.1', '::7f00:1',
+      '64:ff9b::a9fe:a9fe', '64:ff9b::169.254.169.254']) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+    for (const address of ['::ffff:8.8.8.8', '64:ff9b::808:808']) {
+      assert.equal(isBlockedAddress(address), false, address);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '172.32.0.1', '2001:4860:4860::8888', '2606:4700::1111']) {
+      assert.equal(isBlockedAddress(address), false, address);
+    }
+  });
+});
+
+describe('fetchAndEncode', () => {
+  const refuses = (url: string, code: ImageFetchError['code']) =>
+    assert.rejects(fetchAndEncode(url), (err: unknown) => err instanceof ImageFetchError && err.code === code);
+
+  it('refuses literal blocked addresses without connecting', async () => {
+    await refuses('http://127.0.0.1/a.png', 'image_url_blocked');
+    await refuses('http://[::ffff:127.0.0.1]/a.png', 'image_url_blocked');
+    await refuses('http://[64:ff9b::a9fe:a9fe]/latest/meta-data/', 'image_url_blocked');
+  });
+
+  it('refuses schemes other than http and https', async () => {
+    await refuses('file:///etc/passwd', 'image_url_blocked');
+    await refuses('not a url', 'image_fetch_failed');
+  });
+});
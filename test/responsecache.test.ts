@@ -0,0 +1,121 @@
+import { dataDir } from './temp-data-dir';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { before, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { GeminiResponse, RequestContext } from '../src/types';
+
+process.env.RESPONSE_CACHE = 'disk';
+process.env.RESPONSE_CACHE_MAX_ENTRIES = '2';
+process.env.RESPONSE_CACHE_TTL_MS = '500';
+
+let cache: typeof import('../src/responsecache');
+before(async () => {
+  cache = await import('../src/responsecache');
+});
+
+const cacheDir = path.join(dataDir, 'response-cache');
+
+function key(text: string, context?: RequestContext, stream = false) {
+  return cache.responseCacheKey({ model: 'gemini-2.5-pro', contents: [{ parts: [{ text }] }], config: { temperature: 0 } },
+    stream, context)!;
+}
+
+function response(text: string, finishReason = 'STOP'): GeminiResponse {
+  return { candidates: [{ content: { parts: [{ text }] }, finishReason }] };
+}
+
+const cachedText = async (k: string, context?: RequestContext) =>
+  (await cache.getCachedResponse(k, context))?.response?.candidates?.[0].content?.parts?.[0].text;
+
+const cachedFiles = () => fs.readdirSync(cacheDir).sort();
+
+/** Waits for the background disk writes to leave exactly these entries. */
+async function settle(...keys: string[]) {
+  const expected = keys.map((k) => `${k}.json`).sort();
+  for (let waited = 0; waited < 2000 && cachedFiles().join() !== expected.join(); waited += 20) await sleep(20);
+  assert.deepEqual(cachedFiles(), expected);
+}
+
+describe('response cache', () => {
+  // Runs first: the disk index is built on first use
+  it('picks up what a previous run left on disk, dropping expired and excess entries', async () => {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    const write = (k: string, storedAt: number, ageMs: number) => {
+      const file = path.join(cacheDir, `${k}.json`);
+      fs.writeFileSync(file, JSON.stringify({ model: 'gemini-2.5-pro', storedAt, response: response(k.slice(0, 6)) }));
+      const mtime = new Date(Date.now() - ageMs);
+      fs.utimesSync(file, mtime, mtime);
+    };
+    const [expired, oldest, older, newest] = ['expired', 'oldest', 'older', 'newest'].map((t) => key(t));
+    write(expired, Date.now() - 60_000, 60_000);
+    write(oldest, Date.now(), 300);
+    write(older, Date.now(), 200);
+    write(newest, Date.now(), 100);
+
+    assert.equal(await cachedText(newest), newest.slice(0, 6));
+    assert.deepEqual(cachedFiles(), [`${newest}.json`, `${older}.json`].sort());
+  });
+
+  it('keys only deterministic requests the client lets us cache', () => {
+    const request = { model: 'gemini-2.5-pro', contents: [], config: { temperature: 0, topK: 1 } };
+    assert.equal(cache.responseCacheKey({ ...request, config: { temperature: 0.7 } }, false), undefined);
+    assert.equal(cache.responseCacheKey(request, false, { cacheControl: 'no-store' }), undefined);
+
+    const reordered = cache.responseCacheKey({ ...request, config: { topK: 1, temperature: 0 } }, false);
+    assert.equal(cache.responseCacheKey(request, false), reordered);
+    assert.notEqual(cache.responseCacheKey(request, true), reordered);
+    assert.notEqual(cache.responseCacheKey({ ...request, model: 'gemini-2.5-flash' }, false), reordered);
+  });
+
+  it('caches complete answers only', async () => {
+    cache.cacheResponse(key('filtered'), { model: 'gemini-2.5-pro', response: response('no', 'SAFETY') });
+    cache.cacheResponse(key('empty'), { model: 'gemini-2.5-pro', response: { promptFeedback: { blockReason: 'SAFETY' } } });
+    cache.cacheResponse(key('good'), { model: 'gemini-2.5-pro', response: response('yes') });
+
+    assert.equal(await cachedText(key('filtered')), undefined);
+    assert.equal(await cachedText(key('empty')), undefined);
+    assert.equal(await cachedText(key('good')), 'yes');
+  });
+
+  it('caches a stream once its last chunk has a finish reason', async () => {
+    const streamKey = key('stream', undefined, true);
+    cache.cacheResponse(streamKey, { model: 'gemini-2.5-flash', chunks: [response('a', ''), response('b')] });
+    const cached = await cache.getCachedResponse(streamKey);
+
+    assert.equal(cached?.model, 'gemini-2.5-flash');
+    assert.equal(cached?.chunks?.length, 2);
+  });
+
+  it('reports hits and misses, and skips the lookup for no-cache', async () => {
+    cache.cacheResponse(key('fresh'), { model: 'gemini-2.5-pro', response: response('old answer') });
+    const lookups: boolean[] = [];
+    const onCacheLookup = (hit: boolean) => lookups.push(hit);
+
+    assert.equal(await cachedText(key('fresh'), { onCacheLookup }), 'old answer');
+    assert.equal(await cachedText(key('fresh'), { onCacheLookup, cacheControl: 'no-cache' }), undefined);
+    assert.deepEqual(lookups, [true, false]);
+  });
+
+  it('evicts the least recently used entries from memory and disk', async () => {
+    cache.cacheResponse(key('a'), { model: 'gemini-2.5-pro', response: response('a') });
+    cache.cacheResponse(key('b'), { model: 'gemini-2.5-pro', response: response('b') });
+    await settle(key('a'), key('b'));
+    assert.equal(await cachedText(key('a')), 'a');
+    cache.cacheResponse(key('c'), { model: 'gemini-2.5-pro', response: response('c') });
+    await settle(key('a'), key('c'));
+
+    assert.equal(await cachedText(key('b')), undefined);
+  });
+
+  it('expires entries after RESPONSE_CACHE_TTL_MS', async () => {
+    cache.cacheResponse(key('short-lived'), { model: 'gemini-2.5-pro', response: response('soon gone') });
+    await settle(key('c'), key('short-lived'));
+    assert.equal(await cachedText(key('short-lived')), 'soon gone');
+
+    await sleep(500);
+    assert.equal(await cachedText(key('short-lived')), undefined);
+    assert.equal(fs.existsSync(path.join(cacheDir, `${key('short-lived')}.json`)), false);
+  });
+});
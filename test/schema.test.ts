@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkAgainstSchema, SchemaConversionError, toGeminiSchema } from '../src/schema';
+
+describe('toGeminiSchema', () => {
+  it('maps types and keeps the declared property order', () => {
+    assert.deepEqual(toGeminiSchema({
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 1 }, age: { type: 'integer' } },
+      required: ['name'],
+      additionalProperties: false,
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+    }), {
+      type: 'OBJECT',
+      properties: { name: { type: 'STRING', minLength: 1 }, age: { type: 'INTEGER' } },
+      propertyOrdering: ['name', 'age'],
+      required: ['name'],
+    });
+  });
+
+  it('turns null branches and type arrays into nullable', () => {
+    assert.deepEqual(toGeminiSchema({ anyOf: [{ type: 'string' }, { type: 'null' }] }), { type: 'STRING', nullable: true });
+    assert.deepEqual(toGeminiSchema({ type: ['number', 'null'] }), { type: 'NUMBER', nullable: true });
+    assert.deepEqual(toGeminiSchema({ type: ['string', 'integer'] }), { anyOf: [{ type: 'STRING' }, { type: 'INTEGER' }] });
+  });
+
+  it('inlines $ref, letting sibling keywords override the target', () => {
+    assert.deepEqual(toGeminiSchema({
+      $defs: { Tag: { type: 'string', description: 'A tag' } },
+      type: 'array',
+      items: { $ref: '#/$defs/Tag', description: 'One tag' },
+    }), { type: 'ARRAY', items: { type: 'STRING', description: 'One tag' } });
+  });
+
+  it('merges object allOf branches', () => {
+    assert.deepEqual(toGeminiSchema({
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { type: 'object', properties: { b: { type: 'boolean' } } },
+      ],
+    }), {
+      type: 'OBJECT',
+      properties: { a: { type: 'STRING' }, b: { type: 'BOOLEAN' } },
+      propertyOrdering: ['a', 'b'],
+      required: ['a'],
+    });
+  });
+
+  it('converts const and string enums', () => {
+    assert.deepEqual(toGeminiSchema({ const: 'on' }), { type: 'STRING', enum: ['on'] });
+    assert.deepEqual(toGeminiSchema({ enum: ['a', null] }), { type: 'STRING', enum: ['a'], nullable: true });
+  });
+
+  it('rejects what Gemini cannot express, with a pointer to it', () => {
+    const rejects = (schema: Record<string, unknown>, message: RegExp) =>
+      assert.throws(() => toGeminiSchema(schema), (err: unknown) =>
+        err instanceof SchemaConversionError && message.test(err.message));
+
+    rejects({ type: 'object', properties: { n: { not: { type: 'string' } } } }, /"not" at \/properties\/n$/);
+    rejects({ type: 'number', exclusiveMinimum: 0 }, /"exclusiveMinimum"/);
+    rejects({ type: 'integer', multipleOf: 5 }, /"multipleOf"/);
+    rejects({ type: 'array', uniqueItems: true }, /"uniqueItems"/);
+    rejects({ type: 'string', pattern: '(' }, /Invalid pattern/);
+    rejects({ $defs: { Node: { type: 'object', properties: { next: { $ref: '#/$defs/Node' } } } }, $ref: '#/$defs/Node' },
+      /Recursive \$ref/);
+    rejects({ $ref: 'https://example.com/schema.json' }, /External \$ref/);
+    rejects({ enum: [1, 2] }, /string enum values/);
+    rejects({ type: 'null' }, /only allows null/);
+  });
+
+  it('accepts keywords that constrain nothing when false', () => {
+    assert.deepEqual(toGeminiSchema({ type: 'array', uniqueItems: false }), { type: 'ARRAY' });
+  });
+});
+
+describe('checkAgainstSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      id: { type: 'integer', minimum: 1 },
+      code: { type: 'string', pattern: '^[A-Z]{3}$' },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      kind: { enum: ['a', 'b'] },
+    },
+    required: ['id'],
+    additionalProperties: false,
+  };
+
+  it('accepts a conforming value', () => {
+    assert.deepEqual(checkAgainstSchema({ id: 3, code: 'ABC', tags: ['x'], kind: 'a' }, schema), []);
+  });
+
+  it('reports each problem with its JSON pointer', () => {
+    assert.deepEqual(checkAgainstSchema({ id: 0, code: 'abc', tags: ['x', 1, 'z'], kind: 'c', extra: true }, schema), [
+      '/id: below minimum 1',
+      '/code: does not match pattern ^[A-Z]{3}$',
+      '/tags: more than 2 items',
+      '/tags/1: expected string, got integer',
+      '/kind: value is not one of the allowed enum values',
+      '/extra: property is not allowed',
+    ]);
+    assert.deepEqual(checkAgainstSchema({}, schema), ['/: missing required property "id"']);
+  });
+
+  it('lets null through where the schema is nullable', () => {
+    assert.deepEqual(checkAgainstSchema(null, { type: 'string', nullable: true }), []);
+    assert.deepEqual(checkAgainstSchema(null, { type: 'string' }), ['/: expected string, got null']);
+  });
+
+  it('requires exactly one oneOf branch to match', () => {
+    const oneOf = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    assert.deepEqual(checkAgainstSchema(1.5, oneOf), []);
+    assert.deepEqual(checkAgainstSchema(2, oneOf), ['/: value must match exactly one oneOf branch']);
+  });
+
+  it('reports an invalid pattern instead of throwing', () => {
+    assert.deepEqual(checkAgainstSchema({ k: 'v' }, { type: 'object', additionalProperties: { pattern: '[' } }),
+      ['/k: invalid pattern "["']);
+  });
+});
@@ -0,0 +1,40 @@
+import { dataDir } from './temp-data-dir';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { createStore } from '../src/store';
+
+describe('createStore', () => {
+  const store = createStore<{ n: number }>('store-test');
+
+  it('puts, gets, lists and deletes records', async () => {
+    await store.put('a', { n: 1 });
+    await store.put('b', { n: 2 });
+    assert.deepEqual(await store.get('a'), { n: 1 });
+    assert.deepEqual((await store.list()).map((r) => r.n).sort(), [1, 2]);
+
+    assert.equal(await store.delete('a'), true);
+    assert.equal(await store.delete('a'), false);
+    assert.equal(await store.get('a'), undefined);
+  });
+
+  it('treats unsafe ids as missing', async () => {
+    assert.equal(await store.get('../secrets'), undefined);
+    assert.equal(await store.delete('a/b'), false);
+    await assert.rejects(store.put('../escape', { n: 0 }), /Invalid record id/);
+  });
+
+  it('keeps concurrent writes of one record whole', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, n) => store.put('busy', { n })));
+    const { n } = (await store.get('busy'))!;
+    assert.ok(n >= 0 && n < 20);
+
+    const names = await fs.readdir(path.join(dataDir, 'store-test'));
+    assert.deepEqual(names.filter((name) => name.endsWith('.tmp')), []);
+  });
+
+  it('lists nothing for a collection never written', async () => {
+    assert.deepEqual(await createStore('store-test-empty').list(), []);
+  });
+});
@@ -0,0 +1,14 @@
+/* ------------------------------------------------------------------ */
+/*  temp-data-dir.ts – Throwaway BRIDGE_DATA_DIR for unit tests        */
+/* ------------------------------------------------------------------ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Stores, caches and state files go under DATA_DIR, which is fixed when
+// store.ts loads. Tests that write any import this first, so they start
+// empty and leave nothing behind.
+export const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-test-'));
+process.env.BRIDGE_DATA_DIR = dataDir;
+
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));